@@ -0,0 +1,145 @@
+-- CreateTable
+CREATE TABLE "SdeVersion" (
+    "id" TEXT NOT NULL,
+    "buildNumber" INTEGER NOT NULL,
+    "releaseDate" TIMESTAMP(3),
+    "sourcePath" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'importing',
+    "rowCounts" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SdeVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SdeType" (
+    "typeId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "groupId" INTEGER NOT NULL,
+    "marketGroupId" INTEGER,
+    "volume" DOUBLE PRECISION,
+    "mass" DOUBLE PRECISION,
+    "capacity" DOUBLE PRECISION,
+    "portionSize" INTEGER,
+    "basePrice" DOUBLE PRECISION,
+    "iconId" INTEGER,
+    "published" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "SdeType_pkey" PRIMARY KEY ("typeId")
+);
+
+-- CreateTable
+CREATE TABLE "SdeGroup" (
+    "groupId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "published" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "SdeGroup_pkey" PRIMARY KEY ("groupId")
+);
+
+-- CreateTable
+CREATE TABLE "SdeCategory" (
+    "categoryId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "published" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "SdeCategory_pkey" PRIMARY KEY ("categoryId")
+);
+
+-- CreateTable
+CREATE TABLE "SdeMarketGroup" (
+    "marketGroupId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "parentGroupId" INTEGER,
+    "hasTypes" BOOLEAN NOT NULL DEFAULT false,
+    "iconId" INTEGER,
+
+    CONSTRAINT "SdeMarketGroup_pkey" PRIMARY KEY ("marketGroupId")
+);
+
+-- CreateTable
+CREATE TABLE "SdeRegion" (
+    "regionId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "factionId" INTEGER,
+
+    CONSTRAINT "SdeRegion_pkey" PRIMARY KEY ("regionId")
+);
+
+-- CreateTable
+CREATE TABLE "SdeConstellation" (
+    "constellationId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "regionId" INTEGER NOT NULL,
+
+    CONSTRAINT "SdeConstellation_pkey" PRIMARY KEY ("constellationId")
+);
+
+-- CreateTable
+CREATE TABLE "SdeSolarSystem" (
+    "solarSystemId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "constellationId" INTEGER NOT NULL,
+    "regionId" INTEGER NOT NULL,
+    "securityStatus" DOUBLE PRECISION NOT NULL,
+    "securityClass" TEXT,
+    "x" DOUBLE PRECISION,
+    "y" DOUBLE PRECISION,
+    "z" DOUBLE PRECISION,
+
+    CONSTRAINT "SdeSolarSystem_pkey" PRIMARY KEY ("solarSystemId")
+);
+
+-- CreateTable
+CREATE TABLE "SdeStargate" (
+    "stargateId" INTEGER NOT NULL,
+    "solarSystemId" INTEGER NOT NULL,
+    "destinationStargateId" INTEGER NOT NULL,
+    "destinationSolarSystemId" INTEGER NOT NULL,
+    "typeId" INTEGER,
+
+    CONSTRAINT "SdeStargate_pkey" PRIMARY KEY ("stargateId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SdeVersion_buildNumber_key" ON "SdeVersion"("buildNumber");
+
+-- CreateIndex
+CREATE INDEX "SdeVersion_status_completedAt_idx" ON "SdeVersion"("status", "completedAt");
+
+-- CreateIndex
+CREATE INDEX "SdeType_groupId_idx" ON "SdeType"("groupId");
+
+-- CreateIndex
+CREATE INDEX "SdeType_marketGroupId_idx" ON "SdeType"("marketGroupId");
+
+-- CreateIndex
+CREATE INDEX "SdeType_name_idx" ON "SdeType"("name");
+
+-- CreateIndex
+CREATE INDEX "SdeGroup_categoryId_idx" ON "SdeGroup"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "SdeMarketGroup_parentGroupId_idx" ON "SdeMarketGroup"("parentGroupId");
+
+-- CreateIndex
+CREATE INDEX "SdeConstellation_regionId_idx" ON "SdeConstellation"("regionId");
+
+-- CreateIndex
+CREATE INDEX "SdeSolarSystem_constellationId_idx" ON "SdeSolarSystem"("constellationId");
+
+-- CreateIndex
+CREATE INDEX "SdeSolarSystem_regionId_idx" ON "SdeSolarSystem"("regionId");
+
+-- CreateIndex
+CREATE INDEX "SdeSolarSystem_name_idx" ON "SdeSolarSystem"("name");
+
+-- CreateIndex
+CREATE INDEX "SdeStargate_solarSystemId_idx" ON "SdeStargate"("solarSystemId");
+
+-- CreateIndex
+CREATE INDEX "SdeStargate_destinationSolarSystemId_idx" ON "SdeStargate"("destinationSolarSystemId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CachedData" ADD COLUMN     "pages" INTEGER;
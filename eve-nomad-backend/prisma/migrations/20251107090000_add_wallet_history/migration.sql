@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "WalletJournalEntry" (
+    "characterId" INTEGER NOT NULL,
+    "id" BIGINT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "refType" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION,
+    "balance" DOUBLE PRECISION,
+    "description" TEXT NOT NULL,
+    "reason" TEXT,
+    "firstPartyId" INTEGER,
+    "secondPartyId" INTEGER,
+    "contextId" BIGINT,
+    "contextIdType" TEXT,
+    "tax" DOUBLE PRECISION,
+    "taxReceiverId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletJournalEntry_pkey" PRIMARY KEY ("characterId","id")
+);
+
+-- CreateTable
+CREATE TABLE "WalletTransaction" (
+    "characterId" INTEGER NOT NULL,
+    "transactionId" BIGINT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "typeId" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "clientId" INTEGER NOT NULL,
+    "locationId" BIGINT NOT NULL,
+    "isBuy" BOOLEAN NOT NULL,
+    "isPersonal" BOOLEAN NOT NULL,
+    "journalRefId" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WalletTransaction_pkey" PRIMARY KEY ("characterId","transactionId")
+);
+
+-- CreateIndex
+CREATE INDEX "WalletJournalEntry_characterId_date_idx" ON "WalletJournalEntry"("characterId", "date");
+
+-- CreateIndex
+CREATE INDEX "WalletJournalEntry_characterId_refType_idx" ON "WalletJournalEntry"("characterId", "refType");
+
+-- CreateIndex
+CREATE INDEX "WalletTransaction_characterId_date_idx" ON "WalletTransaction"("characterId", "date");
+
+-- CreateIndex
+CREATE INDEX "WalletTransaction_characterId_typeId_idx" ON "WalletTransaction"("characterId", "typeId");
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "MarketOrder" (
+    "characterId" INTEGER NOT NULL,
+    "orderId" BIGINT NOT NULL,
+    "typeId" INTEGER NOT NULL,
+    "locationId" BIGINT NOT NULL,
+    "regionId" INTEGER NOT NULL,
+    "isBuyOrder" BOOLEAN NOT NULL,
+    "isCorporation" BOOLEAN NOT NULL,
+    "volumeTotal" INTEGER NOT NULL,
+    "volumeRemain" INTEGER NOT NULL,
+    "minVolume" INTEGER,
+    "price" DOUBLE PRECISION NOT NULL,
+    "escrow" DOUBLE PRECISION,
+    "range" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "issued" TIMESTAMP(3) NOT NULL,
+    "state" TEXT NOT NULL DEFAULT 'open',
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "MarketOrder_pkey" PRIMARY KEY ("characterId","orderId")
+);
+
+-- CreateTable
+CREATE TABLE "MarketOrderSnapshot" (
+    "id" TEXT NOT NULL,
+    "characterId" INTEGER NOT NULL,
+    "orderId" BIGINT NOT NULL,
+    "state" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "volumeRemain" INTEGER NOT NULL,
+    "escrow" DOUBLE PRECISION,
+    "issued" TIMESTAMP(3) NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MarketOrderSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MarketOrderEvent" (
+    "id" TEXT NOT NULL,
+    "characterId" INTEGER NOT NULL,
+    "orderId" BIGINT NOT NULL,
+    "type" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "price" DOUBLE PRECISION,
+    "previousPrice" DOUBLE PRECISION,
+    "volumeChange" INTEGER,
+    "volumeRemain" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MarketOrderEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketOrder_characterId_state_idx" ON "MarketOrder"("characterId", "state");
+
+-- CreateIndex
+CREATE INDEX "MarketOrderSnapshot_characterId_orderId_recordedAt_idx" ON "MarketOrderSnapshot"("characterId", "orderId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "MarketOrderEvent_characterId_orderId_occurredAt_idx" ON "MarketOrderEvent"("characterId", "orderId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "MarketOrderEvent_characterId_type_occurredAt_idx" ON "MarketOrderEvent"("characterId", "type", "occurredAt");
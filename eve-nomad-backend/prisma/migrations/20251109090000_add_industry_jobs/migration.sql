@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "IndustryJob" (
+    "characterId" INTEGER NOT NULL,
+    "jobId" INTEGER NOT NULL,
+    "installerId" INTEGER NOT NULL,
+    "facilityId" BIGINT NOT NULL,
+    "stationId" BIGINT NOT NULL,
+    "activityId" INTEGER NOT NULL,
+    "blueprintId" BIGINT NOT NULL,
+    "blueprintTypeId" INTEGER NOT NULL,
+    "blueprintLocationId" BIGINT NOT NULL,
+    "outputLocationId" BIGINT NOT NULL,
+    "productTypeId" INTEGER,
+    "runs" INTEGER NOT NULL,
+    "licensedRuns" INTEGER,
+    "cost" DOUBLE PRECISION,
+    "probability" DOUBLE PRECISION,
+    "duration" INTEGER NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "pauseDate" TIMESTAMP(3),
+    "completedDate" TIMESTAMP(3),
+    "completedCharacterId" INTEGER,
+    "successfulRuns" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IndustryJob_pkey" PRIMARY KEY ("characterId","jobId")
+);
+
+-- CreateTable
+CREATE TABLE "IndustryJobEvent" (
+    "id" TEXT NOT NULL,
+    "characterId" INTEGER NOT NULL,
+    "jobId" INTEGER NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IndustryJobEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IndustryJob_characterId_status_idx" ON "IndustryJob"("characterId", "status");
+
+-- CreateIndex
+CREATE INDEX "IndustryJob_status_endDate_idx" ON "IndustryJob"("status", "endDate");
+
+-- CreateIndex
+CREATE INDEX "IndustryJobEvent_characterId_jobId_occurredAt_idx" ON "IndustryJobEvent"("characterId", "jobId", "occurredAt");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "SkillSnapshot" (
+    "id" TEXT NOT NULL,
+    "characterId" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "totalSp" INTEGER NOT NULL,
+    "unallocatedSp" INTEGER NOT NULL DEFAULT 0,
+    "skills" JSONB NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SkillSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SkillSnapshot_characterId_date_key" ON "SkillSnapshot"("characterId", "date");
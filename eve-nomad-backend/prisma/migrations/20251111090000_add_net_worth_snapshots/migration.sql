@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "NetWorthSnapshot" (
+    "id" TEXT NOT NULL,
+    "characterId" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "walletBalance" DOUBLE PRECISION NOT NULL,
+    "assetsValue" DOUBLE PRECISION NOT NULL,
+    "sellOrdersValue" DOUBLE PRECISION NOT NULL,
+    "buyOrderEscrow" DOUBLE PRECISION NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NetWorthSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NetWorthSnapshot_characterId_date_key" ON "NetWorthSnapshot"("characterId", "date");
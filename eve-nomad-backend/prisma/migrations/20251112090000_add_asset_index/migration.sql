@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "IndexedAsset" (
+    "characterId" INTEGER NOT NULL,
+    "itemId" BIGINT NOT NULL,
+    "typeId" INTEGER NOT NULL,
+    "typeName" TEXT NOT NULL,
+    "name" TEXT,
+    "groupId" INTEGER,
+    "marketGroupId" INTEGER,
+    "quantity" INTEGER NOT NULL,
+    "locationFlag" TEXT NOT NULL,
+    "locationId" BIGINT NOT NULL,
+    "locationName" TEXT NOT NULL,
+    "path" JSONB NOT NULL,
+    "indexedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IndexedAsset_pkey" PRIMARY KEY ("characterId","itemId")
+);
+
+-- CreateIndex
+CREATE INDEX "IndexedAsset_characterId_typeId_idx" ON "IndexedAsset"("characterId", "typeId");
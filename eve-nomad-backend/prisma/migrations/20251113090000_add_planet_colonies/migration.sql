@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "PlanetColony" (
+    "characterId" INTEGER NOT NULL,
+    "planetId" INTEGER NOT NULL,
+    "solarSystemId" INTEGER NOT NULL,
+    "planetType" TEXT NOT NULL,
+    "upgradeLevel" INTEGER NOT NULL,
+    "pinCount" INTEGER NOT NULL,
+    "lastUpdate" TIMESTAMP(3) NOT NULL,
+    "extractors" JSONB NOT NULL,
+    "storage" JSONB NOT NULL,
+    "factoryCount" INTEGER NOT NULL,
+    "idleFactoryCount" INTEGER NOT NULL,
+    "storageFill" DOUBLE PRECISION NOT NULL,
+    "nextExpiryAt" TIMESTAMP(3),
+    "expiryNotifiedAt" TIMESTAMP(3),
+    "storageNotifiedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlanetColony_pkey" PRIMARY KEY ("characterId","planetId")
+);
+
+-- CreateIndex
+CREATE INDEX "PlanetColony_nextExpiryAt_idx" ON "PlanetColony"("nextExpiryAt");
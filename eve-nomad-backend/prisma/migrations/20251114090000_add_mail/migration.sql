@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "Mail" (
+    "characterId" INTEGER NOT NULL,
+    "mailId" INTEGER NOT NULL,
+    "subject" TEXT NOT NULL,
+    "threadSubject" TEXT NOT NULL,
+    "fromId" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "labels" INTEGER[],
+    "recipients" JSONB NOT NULL,
+    "body" TEXT,
+    "bodyFetchedAt" TIMESTAMP(3),
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Mail_pkey" PRIMARY KEY ("characterId","mailId")
+);
+
+-- CreateTable
+CREATE TABLE "MailLabel" (
+    "characterId" INTEGER NOT NULL,
+    "labelId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "unreadCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "MailLabel_pkey" PRIMARY KEY ("characterId","labelId")
+);
+
+-- CreateTable
+CREATE TABLE "MailingList" (
+    "characterId" INTEGER NOT NULL,
+    "mailingListId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+
+    CONSTRAINT "MailingList_pkey" PRIMARY KEY ("characterId","mailingListId")
+);
+
+-- CreateIndex
+CREATE INDEX "Mail_characterId_timestamp_idx" ON "Mail"("characterId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "Mail_characterId_threadSubject_idx" ON "Mail"("characterId", "threadSubject");
@@ -0,0 +1,5 @@
+-- CreateIndex
+-- Same expression as searchMail() in mail.service.ts, so full-text search can use the index
+CREATE INDEX "Mail_search_idx" ON "Mail" USING GIN (
+    to_tsvector('english'::regconfig, "subject" || ' ' || coalesce(regexp_replace("body", '<[^>]*>', ' ', 'g'), ''))
+);
@@ -0,0 +1,93 @@
+/**
+ * ESI Scopes Configuration
+ * Maps authenticated ESI routes to the SSO scope they require
+ */
+
+/**
+ * Required scope per route, keyed by `<METHOD> <path template>`
+ * Path templates omit the version prefix (`/latest`, `/v4`, ...)
+ */
+export const ESI_ENDPOINT_SCOPES: Record<string, string> = {
+  // Assets
+  'GET /characters/{character_id}/assets/': 'esi-assets.read_assets.v1',
+  'POST /characters/{character_id}/assets/locations/': 'esi-assets.read_assets.v1',
+  'POST /characters/{character_id}/assets/names/': 'esi-assets.read_assets.v1',
+  'GET /characters/{character_id}/blueprints/': 'esi-characters.read_blueprints.v1',
+
+  // Character
+  'GET /characters/{character_id}/contacts/': 'esi-characters.read_contacts.v1',
+  'GET /characters/{character_id}/notifications/': 'esi-characters.read_notifications.v1',
+
+  // Industry
+  'GET /characters/{character_id}/industry/jobs/': 'esi-industry.read_character_jobs.v1',
+  'GET /characters/{character_id}/mining/': 'esi-industry.read_character_mining.v1',
+
+  // Location
+  'GET /characters/{character_id}/location/': 'esi-location.read_location.v1',
+  'GET /characters/{character_id}/online/': 'esi-location.read_online.v1',
+  'GET /characters/{character_id}/ship/': 'esi-location.read_ship_type.v1',
+
+  // Mail
+  'GET /characters/{character_id}/mail/': 'esi-mail.read_mail.v1',
+  'GET /characters/{character_id}/mail/{mail_id}/': 'esi-mail.read_mail.v1',
+  'GET /characters/{character_id}/mail/labels/': 'esi-mail.read_mail.v1',
+  'GET /characters/{character_id}/mail/lists/': 'esi-mail.read_mail.v1',
+  'POST /characters/{character_id}/mail/': 'esi-mail.send_mail.v1',
+  'PUT /characters/{character_id}/mail/{mail_id}/': 'esi-mail.organize_mail.v1',
+  'DELETE /characters/{character_id}/mail/{mail_id}/': 'esi-mail.organize_mail.v1',
+
+  // Market
+  'GET /characters/{character_id}/orders/': 'esi-markets.read_character_orders.v1',
+  'GET /characters/{character_id}/orders/history/': 'esi-markets.read_character_orders.v1',
+
+  // Planetary interaction
+  'GET /characters/{character_id}/planets/': 'esi-planets.manage_planets.v1',
+  'GET /characters/{character_id}/planets/{planet_id}/': 'esi-planets.manage_planets.v1',
+
+  // Skills
+  'GET /characters/{character_id}/attributes/': 'esi-skills.read_skills.v1',
+  'GET /characters/{character_id}/skills/': 'esi-skills.read_skills.v1',
+  'GET /characters/{character_id}/skillqueue/': 'esi-skills.read_skillqueue.v1',
+
+  // Universe
+  'GET /universe/structures/{structure_id}/': 'esi-universe.read_structures.v1',
+
+  // Wallet
+  'GET /characters/{character_id}/wallet/': 'esi-wallet.read_character_wallet.v1',
+  'GET /characters/{character_id}/wallet/journal/': 'esi-wallet.read_character_wallet.v1',
+  'GET /characters/{character_id}/wallet/transactions/': 'esi-wallet.read_character_wallet.v1',
+};
+
+const ROUTE_MATCHERS = Object.entries(ESI_ENDPOINT_SCOPES).map(([route, scope]) => {
+  const [method, template = ''] = route.split(' ');
+  const pattern = template.replace(/\{[a-z_]+\}/g, '\\d+');
+
+  return { method, regex: new RegExp(`^${pattern}$`), scope };
+});
+
+/**
+ * Get the scope required to call an ESI endpoint, or null if it needs none (or is unknown)
+ */
+export function getRequiredScope(method: string, endpoint: string): string | null {
+  const [path = endpoint] = endpoint.split('?');
+  const unversioned = path.replace(/^\/(latest|legacy|dev|v\d+)(?=\/)/, '');
+  const upperMethod = method.toUpperCase();
+
+  const match = ROUTE_MATCHERS.find(
+    (matcher) => matcher.method === upperMethod && matcher.regex.test(unversioned),
+  );
+
+  return match?.scope ?? null;
+}
+
+/**
+ * Scopes required by an endpoint that are missing from a character's granted scopes
+ */
+export function getMissingScopes(
+  method: string,
+  endpoint: string,
+  grantedScopes: string[],
+): string[] {
+  const requiredScope = getRequiredScope(method, endpoint);
+  return requiredScope && !grantedScopes.includes(requiredScope) ? [requiredScope] : [];
+}
@@ -2,6 +2,16 @@ import { JobSchedule, JobType } from '../types/jobs';
 import { CRON_EXPRESSIONS } from '../services/scheduler.service';
 import { scheduleTokenRefresh } from '../jobs/token-refresh.job';
 import { scheduleDailyCacheCleanup } from '../jobs/cache-cleanup.job';
+import {
+  scheduleAssetIndexRefresh,
+  scheduleIndustryJobRefresh,
+  scheduleMailSync,
+  scheduleNetWorthSnapshots,
+  schedulePlanetRefresh,
+  scheduleSkillSnapshots,
+} from '../jobs/historical-data.job';
+import { markReadyJobs } from '../services/industry.service';
+import { notifyExpiredExtractors, notifyFullStorage } from '../services/planetary.service';
 
 /**
  * Job Schedules Configuration
@@ -27,6 +37,63 @@ export const JOB_SCHEDULES: JobSchedule[] = [
     timezone: 'UTC',
     description: 'Clean expired cache entries daily at 3 AM UTC',
   },
+  {
+    jobType: JobType.INDUSTRY_JOB_CHECK,
+    cronExpression: CRON_EXPRESSIONS.EVERY_5_MINUTES,
+    enabled: true,
+    timezone: 'UTC',
+    description: 'Mark industry jobs past their end date as ready every 5 minutes',
+  },
+  {
+    jobType: JobType.INDUSTRY_JOB_REFRESH,
+    cronExpression: CRON_EXPRESSIONS.EVERY_15_MINUTES,
+    enabled: true,
+    timezone: 'UTC',
+    description: 'Refresh the industry jobs of every character every 15 minutes',
+  },
+  {
+    jobType: JobType.SKILL_SNAPSHOT,
+    cronExpression: CRON_EXPRESSIONS.DAILY_MIDNIGHT,
+    enabled: true,
+    timezone: 'UTC',
+    description: 'Take a skill point snapshot of every character daily at midnight UTC',
+  },
+  {
+    jobType: JobType.NET_WORTH_SNAPSHOT,
+    cronExpression: CRON_EXPRESSIONS.DAILY_MIDNIGHT,
+    enabled: true,
+    timezone: 'UTC',
+    description: 'Take a net worth snapshot of every character daily at midnight UTC',
+  },
+  {
+    jobType: JobType.ASSET_INDEX_REFRESH,
+    cronExpression: CRON_EXPRESSIONS.EVERY_HOUR,
+    enabled: true,
+    timezone: 'UTC',
+    description: 'Rebuild the asset search index of every character hourly',
+  },
+  {
+    jobType: JobType.PLANET_REFRESH,
+    cronExpression: CRON_EXPRESSIONS.EVERY_HOUR,
+    enabled: true,
+    timezone: 'UTC',
+    description: 'Refresh the planetary colonies of every character hourly',
+  },
+  {
+    jobType: JobType.PI_EXTRACTOR_CHECK,
+    cronExpression: CRON_EXPRESSIONS.EVERY_5_MINUTES,
+    enabled: true,
+    timezone: 'UTC',
+    description:
+      'Notify owners of expired planetary extractors and full colony storage every 5 minutes',
+  },
+  {
+    jobType: JobType.MAIL_SYNC,
+    cronExpression: CRON_EXPRESSIONS.EVERY_15_MINUTES,
+    enabled: true,
+    timezone: 'UTC',
+    description: 'Sync new EVE mail of every character every 15 minutes',
+  },
 ];
 
 /**
@@ -63,6 +130,63 @@ export async function initializeScheduledJobs(): Promise<void> {
         };
         break;
 
+      case JobType.INDUSTRY_JOB_CHECK:
+        handler = async () => {
+          // A single query against stored jobs, so it runs inline rather than through a queue
+          await markReadyJobs();
+        };
+        break;
+
+      case JobType.INDUSTRY_JOB_REFRESH:
+        handler = async () => {
+          logger.info('Running scheduled industry job refresh');
+          await scheduleIndustryJobRefresh();
+        };
+        break;
+
+      case JobType.SKILL_SNAPSHOT:
+        handler = async () => {
+          logger.info('Running scheduled skill snapshots');
+          await scheduleSkillSnapshots();
+        };
+        break;
+
+      case JobType.NET_WORTH_SNAPSHOT:
+        handler = async () => {
+          logger.info('Running scheduled net worth snapshots');
+          await scheduleNetWorthSnapshots();
+        };
+        break;
+
+      case JobType.ASSET_INDEX_REFRESH:
+        handler = async () => {
+          logger.info('Running scheduled asset index refresh');
+          await scheduleAssetIndexRefresh();
+        };
+        break;
+
+      case JobType.PLANET_REFRESH:
+        handler = async () => {
+          logger.info('Running scheduled planetary colony refresh');
+          await schedulePlanetRefresh();
+        };
+        break;
+
+      case JobType.PI_EXTRACTOR_CHECK:
+        handler = async () => {
+          // Like the industry job check, only reads stored colonies
+          await notifyExpiredExtractors();
+          await notifyFullStorage();
+        };
+        break;
+
+      case JobType.MAIL_SYNC:
+        handler = async () => {
+          logger.info('Running scheduled mail sync');
+          await scheduleMailSync();
+        };
+        break;
+
       default:
         logger.warn('No handler defined for job type', { jobType: schedule.jobType });
         continue;
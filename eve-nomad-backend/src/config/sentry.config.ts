@@ -81,7 +81,7 @@ export function initializeSentry(): void {
       'ECONNREFUSED',
 
       // Expected errors
-      'REAUTH_REQUIRED',
+      'Re-authentication required',
       'Invalid token',
       'jwt expired',
     ],
@@ -96,7 +96,7 @@ export function initializeSentry(): void {
 export function captureException(
   error: Error,
   context?: {
-    userId?: number;
+    userId?: number | string;
     characterId?: number;
     endpoint?: string;
     tags?: Record<string, string>;
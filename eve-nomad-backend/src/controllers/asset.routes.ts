@@ -0,0 +1,192 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  authMiddleware,
+  requireCharacterAccess,
+  requireSubscription,
+} from '../middleware/auth.middleware';
+import * as assetService from '../services/asset.service';
+import * as assetSearchService from '../services/asset-search.service';
+import { forbiddenErrorSchema } from './error.schema';
+
+type AssetsQuery = { locationId?: number };
+type SearchQuery = { q: string; by?: assetSearchService.AssetSearchField };
+
+/**
+ * Asset routes
+ * Serves the asset browser and cross-character asset search (premium tier)
+ */
+export async function assetRoutes(fastify: FastifyInstance) {
+  // Items nest inside ships and containers, so the node schema refers to itself
+  fastify.addSchema({
+    $id: 'assetNode',
+    type: 'object',
+    properties: {
+      itemId: { type: 'number' },
+      typeId: { type: 'number' },
+      typeName: { type: 'string' },
+      name: { type: 'string', nullable: true },
+      quantity: { type: 'number' },
+      locationFlag: { type: 'string' },
+      isSingleton: { type: 'boolean' },
+      isBlueprintCopy: { type: 'boolean' },
+      volume: { type: 'number' },
+      value: { type: 'number' },
+      children: { type: 'array', items: { $ref: 'assetNode#' } },
+    },
+  });
+
+  // Get a character's assets as a tree grouped by location
+  fastify.get<{ Params: { characterId: string }; Querystring: AssetsQuery }>(
+    '/api/characters/:characterId/assets',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['assets'],
+        summary: 'Get asset tree',
+        description:
+          'Returns assets nested under ships and containers, grouped by station, structure or solar system, with item count, volume and estimated value per location',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            locationId: {
+              type: 'integer',
+              description: 'Only return the assets at this station, structure or solar system',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              itemCount: { type: 'number' },
+              totalVolume: { type: 'number' },
+              totalValue: { type: 'number' },
+              locations: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    locationId: { type: 'number' },
+                    locationName: { type: 'string' },
+                    locationType: { type: 'string' },
+                    itemCount: { type: 'number' },
+                    totalVolume: { type: 'number' },
+                    totalValue: { type: 'number' },
+                    items: { type: 'array', items: { $ref: 'assetNode#' } },
+                  },
+                },
+              },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { characterId: string }; Querystring: AssetsQuery }>,
+      reply: FastifyReply,
+    ) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const tree = await assetService.getAssetTree(characterId, request.query.locationId);
+
+      return reply.send({
+        success: true,
+        ...tree,
+      });
+    },
+  );
+
+  // Search assets across all of the user's characters
+  fastify.get<{ Querystring: SearchQuery }>(
+    '/api/assets/search',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium')],
+      schema: {
+        tags: ['assets'],
+        summary: 'Search assets across characters',
+        description:
+          'Finds items by name, group or market group across all characters on the account, with the location path of each match. Searches the asset index, refreshed hourly.',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            q: {
+              type: 'string',
+              minLength: 2,
+              description: 'Text to search for, at least 2 characters after trimming',
+            },
+            by: {
+              type: 'string',
+              enum: ['any', 'name', 'group', 'marketGroup'],
+              default: 'any',
+              description: 'What to match: item or custom name, item group or market group',
+            },
+          },
+          required: ['q'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              matches: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    characterId: { type: 'number' },
+                    characterName: { type: 'string' },
+                    itemId: { type: 'number' },
+                    typeId: { type: 'number' },
+                    typeName: { type: 'string' },
+                    name: { type: 'string', nullable: true },
+                    quantity: { type: 'number' },
+                    locationFlag: { type: 'string' },
+                    locationId: { type: 'number' },
+                    locationName: { type: 'string' },
+                    path: { type: 'array', items: { type: 'string' } },
+                    indexedAt: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: SearchQuery }>, reply: FastifyReply) => {
+      const matches = await assetSearchService.searchAssets(
+        request.user!.id,
+        request.query.q,
+        request.query.by,
+      );
+
+      return reply.send({
+        success: true,
+        matches,
+      });
+    },
+  );
+}
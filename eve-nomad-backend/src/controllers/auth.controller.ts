@@ -72,6 +72,7 @@ export async function loginHandler(
     'esi-markets.read_character_orders.v1',
     'esi-wallet.read_character_wallet.v1',
     'esi-assets.read_assets.v1',
+    'esi-characters.read_blueprints.v1',
     'esi-universe.read_structures.v1',
     'esi-industry.read_character_jobs.v1',
     'esi-planets.manage_planets.v1',
@@ -82,7 +83,8 @@ export async function loginHandler(
   ].join(' ');
 
   // Build authorization URL
-  const authUrl = new URL('https://login.eveonline.com/v2/oauth/authorize');
+  const ssoBaseUrl = process.env['EVE_SSO_BASE_URL'] || 'https://login.eveonline.com';
+  const authUrl = new URL('/v2/oauth/authorize', ssoBaseUrl);
   authUrl.searchParams.set('response_type', 'code');
   authUrl.searchParams.set('client_id', clientId);
   authUrl.searchParams.set('redirect_uri', callbackUrl);
@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { authMiddleware } from '../middleware/auth.middleware';
 import * as authService from '../services/auth.service';
+import { forbiddenErrorSchema } from './error.schema';
 
 /**
  * Character management routes
@@ -132,13 +133,7 @@ export async function characterRoutes(fastify: FastifyInstance) {
               message: { type: 'string' },
             },
           },
-          403: {
-            type: 'object',
-            properties: {
-              error: { type: 'string' },
-              message: { type: 'string' },
-            },
-          },
+          403: forbiddenErrorSchema,
         },
       },
     },
@@ -0,0 +1,21 @@
+/**
+ * Shared response schemas
+ * Fastify drops properties a response schema does not list, so 403 responses declare every
+ * field sent by `requireSubscription` and the error handler (including MissingScopeError details)
+ */
+export const forbiddenErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    code: { type: 'string' },
+    message: { type: 'string' },
+    statusCode: { type: 'number' },
+    correlationId: { type: 'string' },
+    timestamp: { type: 'string' },
+    path: { type: 'string' },
+    userTier: { type: 'string' },
+    requiredTier: { type: 'string' },
+    characterId: { type: 'number' },
+    missingScopes: { type: 'array', items: { type: 'string' } },
+  },
+};
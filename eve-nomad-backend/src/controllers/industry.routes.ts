@@ -0,0 +1,186 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  authMiddleware,
+  requireCharacterAccess,
+  requireSubscription,
+} from '../middleware/auth.middleware';
+import * as industryService from '../services/industry.service';
+import * as blueprintService from '../services/blueprint.service';
+import { forbiddenErrorSchema } from './error.schema';
+
+type JobsQuery = { status?: industryService.IndustryJobStatus };
+type BlueprintsQuery = { characterId?: number };
+
+/**
+ * Industry routes
+ * Serves industry jobs and the blueprint library for a user's characters (premium tier)
+ */
+export async function industryRoutes(fastify: FastifyInstance) {
+  // Get industry jobs for a character
+  fastify.get<{ Params: { characterId: string }; Querystring: JobsQuery }>(
+    '/api/characters/:characterId/industry/jobs',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['industry'],
+        summary: 'Get industry jobs',
+        description:
+          'Returns current and recently completed industry jobs with resolved names, newest first. Jobs past their end date are reported as ready.',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            status: {
+              type: 'string',
+              enum: ['active', 'paused', 'ready', 'delivered', 'cancelled', 'reverted'],
+              description: 'Only return jobs with this status',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              jobs: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    jobId: { type: 'number' },
+                    activityId: { type: 'number' },
+                    activity: { type: 'string' },
+                    status: { type: 'string' },
+                    blueprintTypeId: { type: 'number' },
+                    blueprintTypeName: { type: 'string' },
+                    productTypeId: { type: 'number', nullable: true },
+                    productTypeName: { type: 'string', nullable: true },
+                    runs: { type: 'number' },
+                    successfulRuns: { type: 'number', nullable: true },
+                    cost: { type: 'number', nullable: true },
+                    locationId: { type: 'number' },
+                    locationName: { type: 'string' },
+                    startDate: { type: 'string' },
+                    endDate: { type: 'string' },
+                    completedDate: { type: 'string', nullable: true },
+                    secondsRemaining: { type: 'number' },
+                  },
+                },
+              },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { characterId: string }; Querystring: JobsQuery }>,
+      reply: FastifyReply,
+    ) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const jobs = await industryService.getIndustryJobs(characterId, request.query.status);
+
+      return reply.send({
+        success: true,
+        jobs,
+      });
+    },
+  );
+
+  // Get the blueprint library across the user's characters
+  fastify.get<{ Querystring: BlueprintsQuery }>(
+    '/api/blueprints',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium')],
+      schema: {
+        tags: ['industry'],
+        summary: 'Get blueprint library',
+        description:
+          'Returns the blueprints of all characters on the account with original/copy, runs, ME/TE, location and the industry job using each one',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            characterId: {
+              type: 'integer',
+              description: 'Only return the blueprints of this character',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              blueprints: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    characterId: { type: 'number' },
+                    characterName: { type: 'string' },
+                    itemId: { type: 'number' },
+                    typeId: { type: 'number' },
+                    typeName: { type: 'string' },
+                    isCopy: { type: 'boolean' },
+                    quantity: { type: 'number' },
+                    runs: { type: 'number', nullable: true },
+                    materialEfficiency: { type: 'number' },
+                    timeEfficiency: { type: 'number' },
+                    locationId: { type: 'number' },
+                    locationName: { type: 'string' },
+                    path: { type: 'array', items: { type: 'string' } },
+                    locationFlag: { type: 'string' },
+                    inUse: { type: 'boolean' },
+                    job: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        jobId: { type: 'number' },
+                        activity: { type: 'string' },
+                        status: { type: 'string' },
+                        endDate: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+              unavailableCharacterIds: { type: 'array', items: { type: 'number' } },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: BlueprintsQuery }>, reply: FastifyReply) => {
+      const library = await blueprintService.getBlueprintLibrary(
+        request.user!.id,
+        request.query.characterId,
+      );
+
+      return reply.send({
+        success: true,
+        ...library,
+      });
+    },
+  );
+}
@@ -0,0 +1,466 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  authMiddleware,
+  requireCharacterAccess,
+  requireSubscription,
+} from '../middleware/auth.middleware';
+import * as mailService from '../services/mail.service';
+import { forbiddenErrorSchema } from './error.schema';
+
+type MailParams = { characterId: string; mailId: string };
+type InboxQuery = { labelId?: number; unread?: boolean; beforeMailId?: number; limit?: number };
+type SearchQuery = { q: string };
+
+/**
+ * Mail routes
+ * Reads, searches, sends and organizes EVE mail for a user's characters (premium tier)
+ */
+export async function mailRoutes(fastify: FastifyInstance) {
+  // List stored mail, optionally by label
+  fastify.get<{ Params: { characterId: string }; Querystring: InboxQuery }>(
+    '/api/characters/:characterId/mail',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['mail'],
+        summary: 'Get mailbox',
+        description:
+          'Returns synced mail headers newest first, with labels and mailing lists. Mail is synced every 15 minutes.',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            labelId: { type: 'integer', description: 'Only return mail with this label' },
+            unread: { type: 'boolean', description: 'Only return unread mail' },
+            beforeMailId: {
+              type: 'integer',
+              description:
+                'Return mail older than this one (nextBeforeMailId of the previous page)',
+            },
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              labels: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    labelId: { type: 'number' },
+                    name: { type: 'string' },
+                    color: { type: 'string', nullable: true },
+                    unreadCount: { type: 'number' },
+                  },
+                },
+              },
+              mailingLists: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    mailingListId: { type: 'number' },
+                    name: { type: 'string' },
+                  },
+                },
+              },
+              mails: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    mailId: { type: 'number' },
+                    subject: { type: 'string' },
+                    fromId: { type: 'number' },
+                    fromName: { type: 'string' },
+                    timestamp: { type: 'string' },
+                    isRead: { type: 'boolean' },
+                    labels: { type: 'array', items: { type: 'number' } },
+                    recipients: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          recipientId: { type: 'number' },
+                          recipientType: { type: 'string' },
+                          recipientName: { type: 'string' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+              nextBeforeMailId: { type: 'number', nullable: true },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { characterId: string }; Querystring: InboxQuery }>,
+      reply: FastifyReply,
+    ) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const inbox = await mailService.getInbox(characterId, request.query);
+
+      return reply.send({
+        success: true,
+        ...inbox,
+      });
+    },
+  );
+
+  // Search stored mail
+  fastify.get<{ Params: { characterId: string }; Querystring: SearchQuery }>(
+    '/api/characters/:characterId/mail/search',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['mail'],
+        summary: 'Search mail',
+        description:
+          'Full-text search over the subject and body of synced mail, newest first (up to 50). Supports "quoted phrases" and -excluded words.',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            q: { type: 'string', minLength: 2, description: 'Text to search for' },
+          },
+          required: ['q'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              mails: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    mailId: { type: 'number' },
+                    subject: { type: 'string' },
+                    fromId: { type: 'number' },
+                    fromName: { type: 'string' },
+                    timestamp: { type: 'string' },
+                    isRead: { type: 'boolean' },
+                    labels: { type: 'array', items: { type: 'number' } },
+                    recipients: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          recipientId: { type: 'number' },
+                          recipientType: { type: 'string' },
+                          recipientName: { type: 'string' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { characterId: string }; Querystring: SearchQuery }>,
+      reply: FastifyReply,
+    ) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const mails = await mailService.searchMail(characterId, request.query.q);
+
+      return reply.send({
+        success: true,
+        mails,
+      });
+    },
+  );
+
+  // Read the thread a mail belongs to
+  fastify.get<{ Params: MailParams }>(
+    '/api/characters/:characterId/mail/:mailId/thread',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['mail'],
+        summary: 'Get mail thread',
+        description:
+          'Returns the mails with the same subject (ignoring Re: and Fw:) as this one, oldest first, with bodies. Long threads return their latest 100 mails',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+            mailId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+          required: ['characterId', 'mailId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              subject: { type: 'string' },
+              mails: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    mailId: { type: 'number' },
+                    subject: { type: 'string' },
+                    fromId: { type: 'number' },
+                    fromName: { type: 'string' },
+                    timestamp: { type: 'string' },
+                    isRead: { type: 'boolean' },
+                    labels: { type: 'array', items: { type: 'number' } },
+                    recipients: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          recipientId: { type: 'number' },
+                          recipientType: { type: 'string' },
+                          recipientName: { type: 'string' },
+                        },
+                      },
+                    },
+                    body: { type: 'string', nullable: true },
+                  },
+                },
+              },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: MailParams }>, reply: FastifyReply) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const mailId = parseInt(request.params.mailId, 10);
+      const thread = await mailService.getThread(characterId, mailId);
+
+      return reply.send({
+        success: true,
+        ...thread,
+      });
+    },
+  );
+
+  // Send an EVE mail
+  fastify.post<{ Params: { characterId: string }; Body: mailService.SendMailInput }>(
+    '/api/characters/:characterId/mail',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['mail'],
+        summary: 'Send mail',
+        description:
+          'Sends an EVE mail from the character to characters, corporations, alliances or a mailing list',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            recipients: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 50,
+              items: {
+                type: 'object',
+                properties: {
+                  recipientId: { type: 'integer' },
+                  recipientType: {
+                    type: 'string',
+                    enum: ['alliance', 'character', 'corporation', 'mailing_list'],
+                  },
+                },
+                required: ['recipientId', 'recipientType'],
+              },
+            },
+            subject: { type: 'string', minLength: 1, maxLength: 1000 },
+            body: { type: 'string', minLength: 1, maxLength: 10000 },
+            approvedCost: { type: 'integer', minimum: 0 },
+          },
+          required: ['recipients', 'subject', 'body'],
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              mailId: { type: 'number' },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { characterId: string };
+        Body: mailService.SendMailInput;
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const mailId = await mailService.sendMail(characterId, request.body);
+
+      return reply.status(201).send({
+        success: true,
+        mailId,
+      });
+    },
+  );
+
+  // Update labels and read state of a mail
+  fastify.put<{ Params: MailParams; Body: mailService.UpdateMailInput }>(
+    '/api/characters/:characterId/mail/:mailId',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['mail'],
+        summary: 'Update mail',
+        description: "Replaces a mail's labels and/or marks it read or unread",
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+            mailId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+          required: ['characterId', 'mailId'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            labels: { type: 'array', maxItems: 25, items: { type: 'integer' } },
+            read: { type: 'boolean' },
+          },
+          minProperties: 1,
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: MailParams; Body: mailService.UpdateMailInput }>,
+      reply: FastifyReply,
+    ) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const mailId = parseInt(request.params.mailId, 10);
+
+      await mailService.updateMail(characterId, mailId, request.body);
+
+      return reply.send({ success: true });
+    },
+  );
+
+  // Delete a mail
+  fastify.delete<{ Params: MailParams }>(
+    '/api/characters/:characterId/mail/:mailId',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['mail'],
+        summary: 'Delete mail',
+        description: "Deletes a mail from the character's mailbox",
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+            mailId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+          required: ['characterId', 'mailId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: MailParams }>, reply: FastifyReply) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const mailId = parseInt(request.params.mailId, 10);
+
+      await mailService.deleteMail(characterId, mailId);
+
+      return reply.send({ success: true });
+    },
+  );
+}
@@ -0,0 +1,168 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  authMiddleware,
+  requireCharacterAccess,
+  requireSubscription,
+} from '../middleware/auth.middleware';
+import * as marketService from '../services/market.service';
+import * as marketHistoryService from '../services/market-history.service';
+import { forbiddenErrorSchema } from './error.schema';
+
+type OrderParams = { characterId: string; orderId: string };
+
+/**
+ * Market routes
+ * Serves market order data for a user's characters (premium tier)
+ */
+export async function marketRoutes(fastify: FastifyInstance) {
+  // Get open market orders for a character
+  fastify.get<{ Params: { characterId: string } }>(
+    '/api/characters/:characterId/market/orders',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['market'],
+        summary: 'Get market orders',
+        description:
+          'Returns open market orders with resolved item and location names, expiry and escrow totals',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              orders: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    orderId: { type: 'number' },
+                    typeId: { type: 'number' },
+                    typeName: { type: 'string' },
+                    locationId: { type: 'number' },
+                    locationName: { type: 'string' },
+                    volumeTotal: { type: 'number' },
+                    volumeRemain: { type: 'number' },
+                    minVolume: { type: 'number' },
+                    price: { type: 'number' },
+                    isBuyOrder: { type: 'boolean' },
+                    duration: { type: 'number' },
+                    issued: { type: 'string' },
+                    range: { type: 'string' },
+                    escrow: { type: 'number' },
+                    expiresAt: { type: 'string' },
+                    daysUntilExpiry: { type: 'number' },
+                  },
+                },
+              },
+              totalEscrow: { type: 'number' },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { characterId: string } }>, reply: FastifyReply) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const summary = await marketService.getMarketOrders(characterId);
+
+      return reply.send({
+        success: true,
+        ...summary,
+      });
+    },
+  );
+
+  // Get the lifecycle of a single market order
+  fastify.get<{ Params: OrderParams }>(
+    '/api/characters/:characterId/market/orders/:orderId/timeline',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['market'],
+        summary: 'Get market order timeline',
+        description:
+          'Returns the lifecycle of a tracked order: created, partially filled, modified, filled, expired or cancelled',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+            orderId: { type: 'string', pattern: '^[0-9]+$' },
+          },
+          required: ['characterId', 'orderId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              order: {
+                type: 'object',
+                properties: {
+                  orderId: { type: 'number' },
+                  typeId: { type: 'number' },
+                  typeName: { type: 'string' },
+                  locationId: { type: 'number' },
+                  locationName: { type: 'string' },
+                  isBuyOrder: { type: 'boolean' },
+                  volumeTotal: { type: 'number' },
+                  volumeRemain: { type: 'number' },
+                  price: { type: 'number' },
+                  state: { type: 'string' },
+                  issued: { type: 'string' },
+                  firstSeenAt: { type: 'string' },
+                  closedAt: { type: 'string', nullable: true },
+                  events: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        type: { type: 'string' },
+                        occurredAt: { type: 'string' },
+                        price: { type: 'number', nullable: true },
+                        previousPrice: { type: 'number', nullable: true },
+                        volumeChange: { type: 'number', nullable: true },
+                        volumeRemain: { type: 'number', nullable: true },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: OrderParams }>, reply: FastifyReply) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const orderId = parseInt(request.params.orderId, 10);
+      const order = await marketHistoryService.getOrderTimeline(characterId, orderId);
+
+      return reply.send({
+        success: true,
+        order,
+      });
+    },
+  );
+}
@@ -0,0 +1,156 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  authMiddleware,
+  requireCharacterAccess,
+  requireSubscription,
+} from '../middleware/auth.middleware';
+import * as netWorthService from '../services/net-worth.service';
+import { forbiddenErrorSchema } from './error.schema';
+
+type HistoryQuery = { days?: number };
+
+const breakdownProperties = {
+  walletBalance: { type: 'number' },
+  assetsValue: { type: 'number' },
+  sellOrdersValue: { type: 'number' },
+  buyOrderEscrow: { type: 'number' },
+  total: { type: 'number' },
+};
+
+const historySchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      date: { type: 'string' },
+      ...breakdownProperties,
+    },
+  },
+};
+
+const historyQuerystring = {
+  type: 'object',
+  properties: {
+    days: {
+      type: 'integer',
+      minimum: 1,
+      maximum: 365,
+      default: 30,
+      description: 'Days of history to return',
+    },
+  },
+};
+
+/**
+ * Net worth routes
+ * Serves net worth breakdowns and daily history per character and per account (premium tier)
+ */
+export async function netWorthRoutes(fastify: FastifyInstance) {
+  // Get net worth for a character
+  fastify.get<{ Params: { characterId: string }; Querystring: HistoryQuery }>(
+    '/api/characters/:characterId/net-worth',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['net-worth'],
+        summary: 'Get character net worth',
+        description:
+          'Returns the current net worth breakdown (wallet, assets, sell orders, buy-order escrow) and daily history',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        querystring: historyQuerystring,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              current: { type: 'object', properties: breakdownProperties },
+              history: historySchema,
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { characterId: string }; Querystring: HistoryQuery }>,
+      reply: FastifyReply,
+    ) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const netWorth = await netWorthService.getCharacterNetWorth(characterId, request.query.days);
+
+      return reply.send({
+        success: true,
+        ...netWorth,
+      });
+    },
+  );
+
+  // Get combined net worth for all of the user's characters
+  fastify.get<{ Querystring: HistoryQuery }>(
+    '/api/net-worth',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium')],
+      schema: {
+        tags: ['net-worth'],
+        summary: 'Get account net worth',
+        description:
+          'Returns the combined net worth of all characters on the account, per-character breakdowns and daily history',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        querystring: historyQuerystring,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              current: { type: 'object', properties: breakdownProperties },
+              history: historySchema,
+              characters: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    characterId: { type: 'number' },
+                    characterName: { type: 'string' },
+                    ...breakdownProperties,
+                  },
+                },
+              },
+              unavailableCharacterIds: { type: 'array', items: { type: 'number' } },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: HistoryQuery }>, reply: FastifyReply) => {
+      const netWorth = await netWorthService.getAccountNetWorth(
+        request.user!.id,
+        request.query.days,
+      );
+
+      return reply.send({
+        success: true,
+        ...netWorth,
+      });
+    },
+  );
+}
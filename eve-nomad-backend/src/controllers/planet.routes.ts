@@ -0,0 +1,111 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  authMiddleware,
+  requireCharacterAccess,
+  requireSubscription,
+} from '../middleware/auth.middleware';
+import * as planetaryService from '../services/planetary.service';
+import { forbiddenErrorSchema } from './error.schema';
+
+/**
+ * Planet routes
+ * Serves the planetary interaction dashboard (premium tier)
+ */
+export async function planetRoutes(fastify: FastifyInstance) {
+  // Get a character's planetary colonies
+  fastify.get<{ Params: { characterId: string } }>(
+    '/api/characters/:characterId/planets',
+    {
+      preHandler: [authMiddleware, requireSubscription('premium'), requireCharacterAccess],
+      schema: {
+        tags: ['planets'],
+        summary: 'Get planetary colonies',
+        description:
+          'Returns each colony with extractor expiry times, storage fill levels and idle factories, soonest expiry first. Storage and factories are as of the last time the colony was viewed in game.',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              colonies: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    planetId: { type: 'number' },
+                    planetType: { type: 'string' },
+                    solarSystemId: { type: 'number' },
+                    solarSystemName: { type: 'string' },
+                    upgradeLevel: { type: 'number' },
+                    pinCount: { type: 'number' },
+                    lastUpdate: { type: 'string' },
+                    extractors: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          pinId: { type: 'number' },
+                          typeId: { type: 'number' },
+                          productTypeId: { type: 'number', nullable: true },
+                          productTypeName: { type: 'string', nullable: true },
+                          qtyPerCycle: { type: 'number', nullable: true },
+                          cycleTime: { type: 'number', nullable: true },
+                          installTime: { type: 'string', nullable: true },
+                          expiryTime: { type: 'string', nullable: true },
+                          secondsRemaining: { type: 'number' },
+                        },
+                      },
+                    },
+                    storage: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          pinId: { type: 'number' },
+                          typeId: { type: 'number' },
+                          typeName: { type: 'string' },
+                          capacity: { type: 'number' },
+                          used: { type: 'number' },
+                          fill: { type: 'number' },
+                        },
+                      },
+                    },
+                    expiresAt: { type: 'string', nullable: true },
+                    factoryCount: { type: 'number' },
+                    idleFactoryCount: { type: 'number' },
+                    storageFill: { type: 'number' },
+                    storageFull: { type: 'boolean' },
+                  },
+                },
+              },
+            },
+          },
+          403: forbiddenErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { characterId: string } }>, reply: FastifyReply) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const colonies = await planetaryService.getColonies(characterId);
+
+      return reply.send({
+        success: true,
+        colonies,
+      });
+    },
+  );
+}
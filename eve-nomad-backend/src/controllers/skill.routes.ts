@@ -0,0 +1,167 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authMiddleware, requireCharacterAccess } from '../middleware/auth.middleware';
+import * as skillService from '../services/skill.service';
+import * as skillHistoryService from '../services/skill-history.service';
+
+type HistoryQuery = { from?: string; to?: string };
+
+/**
+ * Skill routes
+ * Serves skill queue and training data for a user's characters
+ */
+export async function skillRoutes(fastify: FastifyInstance) {
+  // Get skill queue for a character
+  fastify.get<{ Params: { characterId: string } }>(
+    '/api/characters/:characterId/skills/queue',
+    {
+      preHandler: [authMiddleware, requireCharacterAccess],
+      schema: {
+        tags: ['skills'],
+        summary: 'Get skill queue',
+        description:
+          'Returns the skill queue with resolved skill names, queue end time and remaining SP',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              skillQueue: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    skillId: { type: 'number' },
+                    skillName: { type: 'string' },
+                    queuePosition: { type: 'number' },
+                    finishedLevel: { type: 'number' },
+                    trainingStartSp: { type: 'number' },
+                    levelStartSp: { type: 'number' },
+                    levelEndSp: { type: 'number' },
+                    startDate: { type: 'string' },
+                    finishDate: { type: 'string' },
+                  },
+                },
+              },
+              queueEndsAt: { type: 'string', nullable: true },
+              totalRemainingSp: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { characterId: string } }>, reply: FastifyReply) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const summary = await skillService.getSkillQueue(characterId);
+
+      return reply.send({
+        success: true,
+        ...summary,
+      });
+    },
+  );
+
+  // Get skill point history for a character
+  fastify.get<{ Params: { characterId: string }; Querystring: HistoryQuery }>(
+    '/api/characters/:characterId/skills/history',
+    {
+      preHandler: [authMiddleware, requireCharacterAccess],
+      schema: {
+        tags: ['skills'],
+        summary: 'Get skill point history',
+        description:
+          'Returns SP over time, the SP/day rate and the skills trained between two dates, from daily snapshots',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              format: 'date',
+              description: 'Start date (UTC, default 30 days before `to`)',
+            },
+            to: { type: 'string', format: 'date', description: 'End date (UTC, default today)' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              from: { type: 'string', nullable: true },
+              to: { type: 'string', nullable: true },
+              spGained: { type: 'number' },
+              spPerDay: { type: 'number' },
+              points: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    date: { type: 'string' },
+                    totalSp: { type: 'number' },
+                    unallocatedSp: { type: 'number' },
+                  },
+                },
+              },
+              skillsTrained: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    skillId: { type: 'number' },
+                    skillName: { type: 'string' },
+                    fromLevel: { type: 'number' },
+                    toLevel: { type: 'number' },
+                    spGained: { type: 'number' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { characterId: string }; Querystring: HistoryQuery }>,
+      reply: FastifyReply,
+    ) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const history = await skillHistoryService.getSkillPointHistory(
+        characterId,
+        request.query.from,
+        request.query.to,
+      );
+
+      return reply.send({
+        success: true,
+        ...history,
+      });
+    },
+  );
+}
@@ -0,0 +1,137 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authMiddleware, requireCharacterAccess } from '../middleware/auth.middleware';
+import * as walletService from '../services/wallet.service';
+
+/**
+ * Wallet routes
+ * Serves wallet balance and transaction history for a user's characters
+ */
+export async function walletRoutes(fastify: FastifyInstance) {
+  // Get wallet balance for a character
+  fastify.get<{ Params: { characterId: string } }>(
+    '/api/characters/:characterId/wallet',
+    {
+      preHandler: [authMiddleware, requireCharacterAccess],
+      schema: {
+        tags: ['wallet'],
+        summary: 'Get wallet balance',
+        description: 'Returns the current ISK balance for a character',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              balance: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { characterId: string } }>, reply: FastifyReply) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const balance = await walletService.getWalletBalance(characterId);
+
+      return reply.send({
+        success: true,
+        balance,
+      });
+    },
+  );
+
+  // Get wallet transactions for a character
+  fastify.get<{ Params: { characterId: string }; Querystring: { fromId?: number } }>(
+    '/api/characters/:characterId/wallet/transactions',
+    {
+      preHandler: [authMiddleware, requireCharacterAccess],
+      schema: {
+        tags: ['wallet'],
+        summary: 'Get wallet transactions',
+        description:
+          'Returns market transactions with resolved item, client and location names, newest first',
+        headers: {
+          type: 'object',
+          properties: {
+            authorization: { type: 'string', description: 'Bearer <token>' },
+          },
+          required: ['authorization'],
+        },
+        params: {
+          type: 'object',
+          properties: {
+            characterId: { type: 'string' },
+          },
+          required: ['characterId'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            fromId: {
+              type: 'integer',
+              description: 'Only return transactions older than this transaction ID',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              transactions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    transactionId: { type: 'number' },
+                    date: { type: 'string' },
+                    typeId: { type: 'number' },
+                    typeName: { type: 'string' },
+                    quantity: { type: 'number' },
+                    unitPrice: { type: 'number' },
+                    amount: { type: 'number' },
+                    isBuy: { type: 'boolean' },
+                    clientId: { type: 'number' },
+                    clientName: { type: 'string' },
+                    locationId: { type: 'number' },
+                    locationName: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { characterId: string };
+        Querystring: { fromId?: number };
+      }>,
+      reply: FastifyReply,
+    ) => {
+      const characterId = parseInt(request.params.characterId, 10);
+      const transactions = await walletService.getWalletTransactions(
+        characterId,
+        request.query.fromId,
+      );
+
+      return reply.send({
+        success: true,
+        transactions,
+      });
+    },
+  );
+}
@@ -13,6 +13,14 @@ import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
 import { authRoutes } from './controllers/auth.routes';
 import { characterRoutes } from './controllers/character.routes';
+import { skillRoutes } from './controllers/skill.routes';
+import { walletRoutes } from './controllers/wallet.routes';
+import { marketRoutes } from './controllers/market.routes';
+import { mailRoutes } from './controllers/mail.routes';
+import { industryRoutes } from './controllers/industry.routes';
+import { netWorthRoutes } from './controllers/net-worth.routes';
+import { assetRoutes } from './controllers/asset.routes';
+import { planetRoutes } from './controllers/planet.routes';
 // import { registerUserAuthRoutes } from './controllers/user-auth.routes'; // EVE-19 (on separate branch)
 import { startTokenRefreshWorker } from './jobs/token-refresh.job';
 import { startESIDataRefreshWorker } from './jobs/esi-refresh.job';
@@ -20,6 +28,7 @@ import { startHistoricalDataCollectionWorker } from './jobs/historical-data.job'
 import { startCacheCleanupWorker } from './jobs/cache-cleanup.job';
 import { initializeScheduledJobs } from './config/job-schedules';
 import { closeAll as closeAllQueues } from './services/queue.service';
+import { flushCassette } from './services/esi-cassette.service';
 import { stopAll as stopAllScheduledJobs } from './services/scheduler.service';
 import { adminJobRoutes } from './controllers/admin/jobs.routes';
 import * as jwtService from './services/jwt.service';
@@ -91,6 +100,14 @@ async function registerPlugins() {
         { name: 'health', description: 'Health check endpoints' },
         { name: 'auth', description: 'Authentication endpoints' },
         { name: 'characters', description: 'Character management' },
+        { name: 'skills', description: 'Character skills and training' },
+        { name: 'wallet', description: 'Character wallet and transactions' },
+        { name: 'market', description: 'Character market orders (premium)' },
+        { name: 'mail', description: 'Character EVE mail (premium)' },
+        { name: 'industry', description: 'Industry jobs and blueprints (premium)' },
+        { name: 'net-worth', description: 'Character and account net worth (premium)' },
+        { name: 'assets', description: 'Character asset browser (premium)' },
+        { name: 'planets', description: 'Planetary interaction colonies (premium)' },
         { name: 'esi', description: 'ESI proxy endpoints' },
       ],
     },
@@ -120,6 +137,16 @@ async function registerRoutes() {
   // Character management routes
   await fastify.register(characterRoutes);
 
+  // Character data routes
+  await fastify.register(skillRoutes);
+  await fastify.register(walletRoutes);
+  await fastify.register(marketRoutes);
+  await fastify.register(mailRoutes);
+  await fastify.register(industryRoutes);
+  await fastify.register(netWorthRoutes);
+  await fastify.register(assetRoutes);
+  await fastify.register(planetRoutes);
+
   // Admin routes
   await fastify.register(adminJobRoutes);
 
@@ -262,6 +289,9 @@ signals.forEach((signal) => {
     logger.info('Disconnecting Prisma client');
     await disconnectPrisma();
 
+    // Save ESI traffic recorded since the last cassette write
+    await flushCassette();
+
     process.exit(0);
   });
 });
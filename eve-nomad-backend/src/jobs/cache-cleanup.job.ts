@@ -6,6 +6,7 @@ import { captureException } from '../config/sentry.config';
 import { addJob, createWorker } from '../services/queue.service';
 import { JobType, JobPriority, CacheCleanupJobData, CacheCleanupJobResult } from '../types/jobs';
 import * as redis from '../services/redis.service';
+import { removableEntriesFilter } from '../services/cache.service';
 
 const prisma = new PrismaClient();
 const logger = createLogger({ module: 'cache-cleanup-job' });
@@ -114,14 +115,10 @@ async function cleanExpiredCache(
   let itemsRemoved = 0;
   let bytesFreed = 0;
 
-  // Clean expired entries from PostgreSQL
+  // Clean expired entries from PostgreSQL, keeping recent ones with an ETag for revalidation
   if (!dryRun) {
     const result = await prisma.cachedData.deleteMany({
-      where: {
-        expiresAt: {
-          lt: new Date(),
-        },
-      },
+      where: removableEntriesFilter(),
     });
 
     itemsRemoved = result.count;
@@ -131,11 +128,7 @@ async function cleanExpiredCache(
     });
   } else {
     const count = await prisma.cachedData.count({
-      where: {
-        expiresAt: {
-          lt: new Date(),
-        },
-      },
+      where: removableEntriesFilter(),
     });
 
     logger.info('Expired PostgreSQL cache entries found (dry run)', { count });
@@ -1,4 +1,3 @@
-// @ts-nocheck - Awaiting ESIClient public method implementation
 import { Job } from 'bullmq';
 import { createLogger } from '../services/logger.service';
 import { captureException } from '../config/sentry.config';
@@ -10,6 +9,15 @@ import {
   ESIDataRefreshJobResult,
 } from '../types/jobs';
 import { esiClient } from '../services/esi-client';
+import { getRequiredScope } from '../config/esi-scopes';
+import {
+  ESIError,
+  ESIErrorLimitError,
+  ESINotFoundError,
+  ESIRateLimitError,
+  MissingScopeError,
+  ReauthRequiredError,
+} from '../types/errors';
 
 const logger = createLogger({ module: 'esi-refresh-job' });
 
@@ -35,37 +43,28 @@ async function processESIDataRefresh(
   });
 
   try {
-    // Determine if this is an authenticated endpoint
-    const requiresAuth = endpoint.includes('{character_id}') || endpoint.startsWith('/characters/');
-
-    // Make ESI request
-    let response: any;
-    let cached = false;
+    // Determine if this is an authenticated endpoint: a `{character_id}` template always needs
+    // a character, other paths only when the scope map lists them
+    const requiresAuth =
+      endpoint.includes('{character_id}') || getRequiredScope('GET', endpoint) !== null;
 
     try {
-      if (requiresAuth) {
-        // Authenticated endpoint - requires character ID
-        if (!characterId) {
-          throw new Error('Character ID required for authenticated endpoint');
-        }
-
-        // await esiClient.get(endpoint, { params, characterId, skipCache });
-        response = null; // Placeholder - ESIClient.get() is private
-      } else {
-        // Public endpoint
-        // await esiClient.get(endpoint, { params, skipCache });
-        response = null; // Placeholder - ESIClient.get() is private
+      if (requiresAuth && !characterId) {
+        throw new Error('Character ID required for authenticated endpoint');
       }
 
-      // Check if response was served from cache
-      // (In production, this would be tracked by the ESI client)
-      cached = !skipCache;
+      const response = await esiClient.request<unknown>(endpoint, {
+        params,
+        characterId: requiresAuth ? characterId : undefined,
+        skipCache,
+      });
 
       logger.info('ESI data refreshed successfully', {
         characterId,
         endpoint,
-        cached,
-        hasData: !!response,
+        cached: response.cached,
+        statusCode: response.statusCode,
+        expiresAt: response.expiresAt,
         duration: Date.now() - startTime,
         jobId: job.id,
       });
@@ -74,24 +73,19 @@ async function processESIDataRefresh(
         characterId,
         endpoint,
         success: true,
-        cached,
-        statusCode: 200,
+        cached: response.cached,
+        statusCode: response.statusCode,
         duration: Date.now() - startTime,
       };
-    } catch (error: any) {
-      const statusCode = error.response?.status || 500;
-
-      logger.error('ESI data refresh failed', error, {
-        characterId,
-        endpoint,
-        statusCode,
-        duration: Date.now() - startTime,
-        jobId: job.id,
-      });
-
-      // Handle specific ESI errors
-      if (statusCode === 404) {
+    } catch (error) {
+      if (error instanceof ESINotFoundError) {
         // Not found - don't retry
+        logger.warn('ESI endpoint not found during refresh', {
+          characterId,
+          endpoint,
+          jobId: job.id,
+        });
+
         return {
           characterId,
           endpoint,
@@ -103,12 +97,31 @@ async function processESIDataRefresh(
         };
       }
 
-      if (statusCode === 401 || statusCode === 403) {
+      if (error instanceof MissingScopeError) {
+        // The character never granted this scope - retrying will not help
+        logger.warn('Missing ESI scope during refresh', {
+          characterId,
+          endpoint,
+          missingScopes: error.missingScopes,
+          jobId: job.id,
+        });
+
+        return {
+          characterId,
+          endpoint,
+          success: false,
+          cached: false,
+          statusCode: 403,
+          error: 'missing_scope',
+          duration: Date.now() - startTime,
+        };
+      }
+
+      if (error instanceof ReauthRequiredError) {
         // Authentication error - user needs to re-auth
         logger.warn('Authentication error during ESI refresh', {
           characterId,
           endpoint,
-          statusCode,
           jobId: job.id,
         });
 
@@ -117,7 +130,7 @@ async function processESIDataRefresh(
           endpoint,
           success: false,
           cached: false,
-          statusCode,
+          statusCode: 401,
           error: 'auth_required',
           duration: Date.now() - startTime,
         };
@@ -129,6 +142,18 @@ async function processESIDataRefresh(
   } catch (error) {
     const duration = Date.now() - startTime;
 
+    // Let BullMQ retry with backoff once the limit has reset or ESI has recovered
+    if (isTransientESIError(error)) {
+      logger.warn('ESI data refresh will be retried', {
+        characterId,
+        endpoint,
+        reason: (error as Error).message,
+        duration,
+        jobId: job.id,
+      });
+      throw error;
+    }
+
     logger.error('ESI data refresh job failed', error as Error, {
       characterId,
       userId,
@@ -161,6 +186,13 @@ async function processESIDataRefresh(
   }
 }
 
+function isTransientESIError(error: unknown): boolean {
+  if (error instanceof ESIRateLimitError || error instanceof ESIErrorLimitError) {
+    return true;
+  }
+  return error instanceof ESIError && (error.esiStatus ?? 0) >= 500;
+}
+
 /**
  * Start the ESI data refresh worker
  */
@@ -1,7 +1,6 @@
-// @ts-nocheck - Stub file awaiting proper implementation
 import { Job } from 'bullmq';
-// import { PrismaClient } from '@prisma/client';
 import { createLogger } from '../services/logger.service';
+import { getPrisma } from '../utils/prisma';
 import { captureException } from '../config/sentry.config';
 import { addJob, createWorker } from '../services/queue.service';
 import {
@@ -10,9 +9,22 @@ import {
   HistoricalDataCollectionJobData,
   HistoricalDataCollectionJobResult,
 } from '../types/jobs';
-import { esiClient } from '../services/esi-client';
+import * as walletHistory from '../services/wallet-history.service';
+import * as marketHistory from '../services/market-history.service';
+import * as industry from '../services/industry.service';
+import * as skillHistory from '../services/skill-history.service';
+import * as netWorth from '../services/net-worth.service';
+import * as assetSearch from '../services/asset-search.service';
+import * as planetary from '../services/planetary.service';
+import * as mail from '../services/mail.service';
+import {
+  ESIErrorLimitError,
+  ESIRateLimitError,
+  MissingScopeError,
+  ReauthRequiredError,
+} from '../types/errors';
 
-// const _prisma = new PrismaClient();
+const prisma = getPrisma();
 const logger = createLogger({ module: 'historical-data-job' });
 
 const QUEUE_NAME = 'historical-data-collection';
@@ -25,11 +37,11 @@ async function processHistoricalDataCollection(
   job: Job<HistoricalDataCollectionJobData>,
 ): Promise<HistoricalDataCollectionJobResult> {
   const startTime = Date.now();
-  const { characterId, _userId, dataType, fromDate, toDate, batchSize = 100, pageToken } = job.data;
+  const { characterId, userId, dataType, fromDate, toDate, batchSize = 100, pageToken } = job.data;
 
   logger.info('Processing historical data collection', {
     characterId,
-    _userId,
+    userId,
     dataType,
     fromDate,
     toDate,
@@ -40,33 +52,28 @@ async function processHistoricalDataCollection(
 
   let recordsCollected = 0;
   let recordsStored = 0;
+  let nextPageToken: string | undefined;
 
   try {
     switch (dataType) {
       case 'wallet_journal':
-        ({ recordsCollected, recordsStored } = await collectWalletJournal(
-          characterId,
-          _userId,
-          fromDate,
-          toDate,
-          pageToken,
-        ));
+        ({ recordsCollected, recordsStored, nextPageToken } =
+          await walletHistory.collectJournalPage(characterId, { fromDate, toDate }, pageToken));
         break;
 
       case 'wallet_transactions':
-        ({ recordsCollected, recordsStored } = await collectWalletTransactions(
-          characterId,
-          _userId,
-          fromDate,
-          toDate,
-          pageToken,
-        ));
+        ({ recordsCollected, recordsStored, nextPageToken } =
+          await walletHistory.collectTransactionBatch(
+            characterId,
+            { fromDate, toDate },
+            pageToken,
+          ));
         break;
 
       case 'market_orders':
         ({ recordsCollected, recordsStored } = await collectMarketOrdersHistory(
           characterId,
-          _userId,
+          userId,
           fromDate,
           toDate,
         ));
@@ -75,20 +82,54 @@ async function processHistoricalDataCollection(
       case 'industry_jobs':
         ({ recordsCollected, recordsStored } = await collectIndustryJobsHistory(
           characterId,
-          _userId,
+          userId,
           fromDate,
           toDate,
         ));
         break;
 
       case 'skill_history':
-        ({ recordsCollected, recordsStored } = await collectSkillHistory(characterId, _userId));
+        ({ recordsCollected, recordsStored } = await collectSkillHistory(characterId, userId));
+        break;
+
+      case 'assets':
+        recordsCollected = await assetSearch.indexCharacterAssets(characterId);
+        recordsStored = recordsCollected;
+        break;
+
+      case 'planets':
+        recordsCollected = (await planetary.trackColonies(characterId)).coloniesSeen;
+        recordsStored = recordsCollected;
+        break;
+
+      case 'mail':
+        ({ recordsCollected, recordsStored, nextPageToken } = await mail.syncMailPage(
+          characterId,
+          pageToken,
+        ));
+        break;
+
+      case 'net_worth':
+        await netWorth.takeSnapshot(characterId);
+        recordsCollected = 1;
+        recordsStored = 1;
         break;
 
       default:
         throw new Error(`Unsupported data type: ${dataType}`);
     }
 
+    // Older entries remain: continue from where this batch stopped in a follow-up job
+    if (nextPageToken) {
+      await collectHistoricalData(characterId, userId, dataType, {
+        fromDate,
+        toDate,
+        batchSize,
+        pageToken: nextPageToken,
+        priority: job.opts.priority,
+      });
+    }
+
     const duration = Date.now() - startTime;
 
     logger.info('Historical data collection completed', {
@@ -96,6 +137,7 @@ async function processHistoricalDataCollection(
       dataType,
       recordsCollected,
       recordsStored,
+      nextPageToken,
       duration,
       jobId: job.id,
     });
@@ -106,14 +148,46 @@ async function processHistoricalDataCollection(
       recordsCollected,
       recordsStored,
       success: true,
+      nextPageToken,
       duration,
     };
   } catch (error) {
     const duration = Date.now() - startTime;
 
+    // Let BullMQ retry once the ESI limit has reset
+    if (error instanceof ESIRateLimitError || error instanceof ESIErrorLimitError) {
+      logger.warn('Historical data collection will be retried', {
+        characterId,
+        dataType,
+        reason: error.message,
+        jobId: job.id,
+      });
+      throw error;
+    }
+
+    // The character has to re-authorize - expected, so not reported to Sentry
+    if (error instanceof ReauthRequiredError || error instanceof MissingScopeError) {
+      logger.warn('Historical data collection needs re-authorization', {
+        characterId,
+        dataType,
+        code: error.code,
+        jobId: job.id,
+      });
+
+      return {
+        characterId,
+        dataType,
+        recordsCollected,
+        recordsStored,
+        success: false,
+        error: error.code,
+        duration,
+      };
+    }
+
     logger.error('Historical data collection failed', error as Error, {
       characterId,
-      _userId,
+      userId,
       dataType,
       recordsCollected,
       recordsStored,
@@ -122,7 +196,7 @@ async function processHistoricalDataCollection(
     });
 
     captureException(error as Error, {
-      _userId,
+      userId,
       characterId,
       tags: {
         error_type: 'historical_data_collection_failed',
@@ -144,164 +218,61 @@ async function processHistoricalDataCollection(
   }
 }
 
-/**
- * Collect wallet journal history
- */
-async function collectWalletJournal(
-  characterId: number,
-  _userId: number,
-  fromDate?: Date | string,
-  toDate?: Date | string,
-  pageToken?: string,
-): Promise<{ recordsCollected: number; recordsStored: number }> {
-  logger.info('Collecting wallet journal', { characterId, fromDate, toDate });
-
-  const endpoint = `/latest/characters/${characterId}/wallet/journal/`;
-  const data = await esiClient.getCharacterWalletJournal(characterId);
-
-  if (!data || data.length === 0) {
-    return { recordsCollected: 0, recordsStored: 0 };
-  }
-
-  // Filter by date range if specified
-  let filteredData = data;
-  if (fromDate) {
-    const fromDateObj = new Date(fromDate);
-    filteredData = filteredData.filter((entry: any) => new Date(entry.date) >= fromDateObj);
-  }
-  if (toDate) {
-    const toDateObj = new Date(toDate);
-    filteredData = filteredData.filter((entry: any) => new Date(entry.date) <= toDateObj);
-  }
-
-  // Store in database (placeholder - actual implementation would use Prisma)
-  // For now, we'll just log and return counts
-  logger.info('Wallet journal entries collected', {
-    characterId,
-    total: data.length,
-    filtered: filteredData.length,
-  });
-
-  return {
-    recordsCollected: data.length,
-    recordsStored: filteredData.length,
-  };
-}
-
-/**
- * Collect wallet transactions history
- */
-async function collectWalletTransactions(
-  characterId: number,
-  _userId: number,
-  fromDate?: Date | string,
-  toDate?: Date | string,
-  pageToken?: string,
-): Promise<{ recordsCollected: number; recordsStored: number }> {
-  logger.info('Collecting wallet transactions', { characterId, fromDate, toDate });
-
-  const data = await esiClient.getCharacterWalletTransactions(characterId);
-
-  if (!data || data.length === 0) {
-    return { recordsCollected: 0, recordsStored: 0 };
-  }
-
-  // Filter by date range if specified
-  let filteredData = data;
-  if (fromDate) {
-    const fromDateObj = new Date(fromDate);
-    filteredData = filteredData.filter((entry: any) => new Date(entry.date) >= fromDateObj);
-  }
-  if (toDate) {
-    const toDateObj = new Date(toDate);
-    filteredData = filteredData.filter((entry: any) => new Date(entry.date) <= toDateObj);
-  }
-
-  logger.info('Wallet transactions collected', {
-    characterId,
-    total: data.length,
-    filtered: filteredData.length,
-  });
-
-  return {
-    recordsCollected: data.length,
-    recordsStored: filteredData.length,
-  };
-}
-
 /**
  * Collect market orders history
+ * Snapshots open and closed orders and records their lifecycle events
  */
 async function collectMarketOrdersHistory(
   characterId: number,
-  _userId: number,
+  _userId: string,
   fromDate?: Date | string,
   toDate?: Date | string,
 ): Promise<{ recordsCollected: number; recordsStored: number }> {
   logger.info('Collecting market orders history', { characterId, fromDate, toDate });
 
-  const data = await esiClient.getCharacterOrders(characterId);
-
-  if (!data || data.length === 0) {
-    return { recordsCollected: 0, recordsStored: 0 };
-  }
-
-  logger.info('Market orders collected', {
-    characterId,
-    total: data.length,
-  });
+  const result = await marketHistory.trackOrders(characterId);
 
   return {
-    recordsCollected: data.length,
-    recordsStored: data.length,
+    recordsCollected: result.ordersSeen,
+    recordsStored: result.snapshotsStored,
   };
 }
 
 /**
  * Collect industry jobs history
+ * Stores current and recently completed jobs and records their status transitions
  */
 async function collectIndustryJobsHistory(
   characterId: number,
-  _userId: number,
+  _userId: string,
   fromDate?: Date | string,
   toDate?: Date | string,
 ): Promise<{ recordsCollected: number; recordsStored: number }> {
   logger.info('Collecting industry jobs history', { characterId, fromDate, toDate });
 
-  // This would call ESI endpoint for industry jobs
-  // For now, return placeholder data
-  logger.info('Industry jobs collected', { characterId, count: 0 });
+  const result = await industry.trackJobs(characterId);
 
   return {
-    recordsCollected: 0,
-    recordsStored: 0,
+    recordsCollected: result.jobsSeen,
+    recordsStored: result.jobsSeen,
   };
 }
 
 /**
  * Collect skill history
+ * Stores today's skill point snapshot
  */
 async function collectSkillHistory(
   characterId: number,
-  _userId: number,
+  _userId: string,
 ): Promise<{ recordsCollected: number; recordsStored: number }> {
   logger.info('Collecting skill history', { characterId });
 
-  const skills = await esiClient.getCharacterSkills(characterId);
-
-  if (!skills || !skills.skills || skills.skills.length === 0) {
-    return { recordsCollected: 0, recordsStored: 0 };
-  }
-
-  logger.info('Skills collected', {
-    characterId,
-    skillCount: skills.skills.length,
-    totalSP: skills.total_sp,
-  });
+  const skillCount = await skillHistory.takeSnapshot(characterId);
 
   return {
-    recordsCollected: skills.skills.length,
-    recordsStored: skills.skills.length,
+    recordsCollected: skillCount,
+    recordsStored: skillCount,
   };
 }
 
@@ -326,21 +297,23 @@ export function startHistoricalDataCollectionWorker() {
  */
 export async function collectHistoricalData(
   characterId: number,
-  _userId: number,
+  userId: string,
   dataType: HistoricalDataCollectionJobData['dataType'],
   options?: {
     fromDate?: Date | string;
     toDate?: Date | string;
     batchSize?: number;
+    pageToken?: string;
     priority?: JobPriority;
   },
 ): Promise<void> {
   logger.info('Queueing historical data collection', {
     characterId,
-    _userId,
+    userId,
     dataType,
     fromDate: options?.fromDate,
     toDate: options?.toDate,
+    pageToken: options?.pageToken,
   });
 
   await addJob<HistoricalDataCollectionJobData>(
@@ -348,11 +321,12 @@ export async function collectHistoricalData(
     JobType.HISTORICAL_DATA_COLLECTION,
     {
       characterId,
-      _userId,
+      userId,
       dataType,
       fromDate: options?.fromDate,
       toDate: options?.toDate,
       batchSize: options?.batchSize || 100,
+      pageToken: options?.pageToken,
     },
     {
       priority: options?.priority || JobPriority.LOW,
@@ -377,7 +351,7 @@ export async function collectHistoricalData(
  */
 export async function collectAllHistoricalData(
   characterId: number,
-  _userId: number,
+  userId: string,
   options?: {
     fromDate?: Date | string;
     toDate?: Date | string;
@@ -386,7 +360,7 @@ export async function collectAllHistoricalData(
 ): Promise<void> {
   logger.info('Collecting all historical data', {
     characterId,
-    _userId,
+    userId,
     fromDate: options?.fromDate,
     toDate: options?.toDate,
   });
@@ -397,6 +371,10 @@ export async function collectAllHistoricalData(
     'market_orders',
     'industry_jobs',
     'skill_history',
+    'net_worth',
+    'assets',
+    'planets',
+    'mail',
   ];
 
   for (const dataType of dataTypes) {
@@ -409,5 +387,75 @@ export async function collectAllHistoricalData(
   });
 }
 
+/**
+ * Queue a skill snapshot for every character that granted the skills scope
+ * Runs daily, so each character gets one snapshot per day
+ */
+export async function scheduleSkillSnapshots(): Promise<void> {
+  await queueForCharactersWithScopes('skill_history', ['esi-skills.read_skills.v1']);
+}
+
+/**
+ * Queue a net worth snapshot for every character that granted the wallet, asset and order scopes
+ * Runs daily, so each character gets one snapshot per day
+ */
+export async function scheduleNetWorthSnapshots(): Promise<void> {
+  await queueForCharactersWithScopes('net_worth', [
+    'esi-wallet.read_character_wallet.v1',
+    'esi-assets.read_assets.v1',
+    'esi-markets.read_character_orders.v1',
+  ]);
+}
+
+/**
+ * Queue an asset index rebuild for every character that granted the assets scope
+ * Runs hourly, matching how long ESI caches the asset list
+ */
+export async function scheduleAssetIndexRefresh(): Promise<void> {
+  await queueForCharactersWithScopes('assets', ['esi-assets.read_assets.v1']);
+}
+
+/**
+ * Queue an industry job refresh for every character that granted the industry jobs scope
+ * Runs every 15 minutes; jobs reaching their end date in between are marked ready by the job check
+ */
+export async function scheduleIndustryJobRefresh(): Promise<void> {
+  await queueForCharactersWithScopes('industry_jobs', ['esi-industry.read_character_jobs.v1']);
+}
+
+/**
+ * Queue a planetary colony refresh for every character that granted the planets scope
+ * Runs hourly; extractor expiry is checked separately against the stored colonies
+ */
+export async function schedulePlanetRefresh(): Promise<void> {
+  await queueForCharactersWithScopes('planets', ['esi-planets.manage_planets.v1']);
+}
+
+/**
+ * Queue a mail sync for every character that granted the read mail scope
+ * Each sync skips over mail that is already stored, resuming any unfinished backfill
+ */
+export async function scheduleMailSync(): Promise<void> {
+  await queueForCharactersWithScopes('mail', ['esi-mail.read_mail.v1']);
+}
+
+async function queueForCharactersWithScopes(
+  dataType: HistoricalDataCollectionJobData['dataType'],
+  scopes: string[],
+): Promise<void> {
+  const characters = await prisma.character.findMany({
+    where: { scopes: { hasEvery: scopes } },
+    select: { characterId: true, userId: true },
+  });
+
+  for (const character of characters) {
+    await collectHistoricalData(character.characterId, character.userId, dataType, {
+      priority: JobPriority.LOW,
+    });
+  }
+
+  logger.info('Collection queued for characters', { dataType, count: characters.length });
+}
+
 // Export queue name for reference
 export { QUEUE_NAME as historicalDataCollectionQueueName };
@@ -142,6 +142,43 @@ export async function optionalAuthMiddleware(
   }
 }
 
+/**
+ * Character Access Middleware
+ * Requires the `:characterId` route param to be one of the user's characters
+ */
+export async function requireCharacterAccess(
+  request: FastifyRequest,
+  reply: FastifyReply,
+): Promise<void> {
+  if (!request.user) {
+    return reply.status(401).send({
+      error: 'Unauthorized',
+      message: 'Authentication required',
+    });
+  }
+
+  const params = request.params as { characterId?: string };
+  const characterId = parseInt(params.characterId ?? '', 10);
+
+  if (isNaN(characterId)) {
+    return reply.status(400).send({
+      error: 'Bad request',
+      message: 'Invalid character ID',
+    });
+  }
+
+  const ownsCharacter = await authService.userOwnsCharacter(request.user.id, characterId);
+
+  if (!ownsCharacter) {
+    return reply.status(404).send({
+      error: 'Not found',
+      message: 'Character not found',
+    });
+  }
+
+  // Continue to route handler
+}
+
 /**
  * Subscription Tier Middleware
  * Requires user to have specific subscription tier
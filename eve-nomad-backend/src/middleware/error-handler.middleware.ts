@@ -1,6 +1,13 @@
 import { FastifyError, FastifyReply, FastifyRequest } from 'fastify';
 import { captureException } from '../config/sentry.config';
 import { createLogger } from '../services/logger.service';
+import {
+  ApplicationError,
+  ESIErrorLimitError,
+  ESIRateLimitError,
+  MissingScopeError,
+  RateLimitError,
+} from '../types/errors';
 
 const logger = createLogger({ module: 'error-handler' });
 
@@ -56,14 +63,18 @@ export async function errorHandler(
   // Prepare error response
   const errorResponse: {
     error: string;
+    code: string;
     message: string;
     statusCode: number;
     correlationId: string;
     timestamp: string;
     path?: string;
     validation?: unknown;
+    characterId?: number;
+    missingScopes?: string[];
   } = {
     error: getErrorName(statusCode),
+    code: getErrorCode(error, statusCode),
     message: getErrorMessage(error, statusCode),
     statusCode,
     correlationId,
@@ -80,6 +91,18 @@ export async function errorHandler(
     errorResponse.validation = error.validation;
   }
 
+  // Tell the client which scopes the character has to re-authorize with
+  if (error instanceof MissingScopeError) {
+    errorResponse.characterId = error.characterId;
+    errorResponse.missingScopes = error.missingScopes;
+  }
+
+  if (error instanceof ESIRateLimitError || error instanceof RateLimitError) {
+    reply.header('Retry-After', String(error.retryAfter));
+  } else if (error instanceof ESIErrorLimitError) {
+    reply.header('Retry-After', '60'); // ESI's error limit window
+  }
+
   // Send error response
   reply.status(statusCode).send(errorResponse);
 }
@@ -106,6 +129,21 @@ function getErrorName(statusCode: number): string {
   return errorNames[statusCode] || 'Error';
 }
 
+/**
+ * Get a stable, machine-readable error code
+ */
+function getErrorCode(error: FastifyError, statusCode: number): string {
+  if (error instanceof ApplicationError) {
+    return error.code;
+  }
+
+  if (error.validation) {
+    return 'VALIDATION_ERROR';
+  }
+
+  return statusCode >= 500 ? 'INTERNAL_ERROR' : 'REQUEST_ERROR';
+}
+
 /**
  * Get user-friendly error message
  */
@@ -140,6 +178,7 @@ export async function notFoundHandler(request: FastifyRequest, reply: FastifyRep
 
   reply.status(404).send({
     error: 'Not Found',
+    code: 'ROUTE_NOT_FOUND',
     message: `Route ${request.method} ${request.url} not found`,
     statusCode: 404,
     correlationId,
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigurationError } from '../types/errors';
+import type * as ESI from '../types/esi';
+
+/**
+ * Mock ESI fixtures
+ *
+ * A fixture directory contains:
+ * - `routes/*.json`: arrays of route fixtures (see MockRouteFixture)
+ * - `characters.json`: characters the mock SSO can log in as
+ * - `names.json`: entries served by POST /universe/names/
+ */
+
+export const DEFAULT_FIXTURES_PATH = path.resolve(__dirname, '../../fixtures/esi');
+
+export type MockMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface MockRouteFixture {
+  method?: MockMethod; // Defaults to GET
+  path: string; // Template without version prefix, e.g. `/characters/{character_id}/assets/`
+  status?: number; // Defaults to 200
+  body?: unknown;
+  byId?: Record<string, unknown>; // Bodies keyed by the last path parameter; unknown IDs 404
+  pages?: unknown[][]; // Paginated body, served with X-Pages
+  cacheSeconds?: number; // Drives Expires; defaults to 300
+  rateLimitGroup?: string; // Routes with a group get X-Ratelimit-* headers and a token bucket
+}
+
+export interface MockRoute extends MockRouteFixture {
+  method: MockMethod;
+  regex: RegExp;
+}
+
+export interface MockCharacter {
+  characterId: number;
+  characterName: string;
+  scopes: string[];
+}
+
+export interface MockFixtures {
+  routes: MockRoute[];
+  characters: MockCharacter[];
+  names: ESI.UniverseName[];
+}
+
+/**
+ * Load fixtures from a directory
+ */
+export function loadFixtures(fixturesPath: string = DEFAULT_FIXTURES_PATH): MockFixtures {
+  const routesPath = path.join(fixturesPath, 'routes');
+
+  if (!fs.existsSync(routesPath)) {
+    throw new ConfigurationError(
+      'MOCK_ESI_FIXTURES_PATH',
+      `Mock ESI fixtures not found: ${routesPath}`,
+    );
+  }
+
+  const routes = fs
+    .readdirSync(routesPath)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .flatMap((file) => readJson<MockRouteFixture[]>(path.join(routesPath, file)))
+    .map(toRoute);
+
+  return {
+    routes,
+    characters: readJson<MockCharacter[]>(path.join(fixturesPath, 'characters.json'), []),
+    names: readJson<ESI.UniverseName[]>(path.join(fixturesPath, 'names.json'), []),
+  };
+}
+
+/**
+ * Find the fixture for a request path. Version prefixes (`/latest`, `/v4`, ...) are ignored.
+ */
+export function findRoute(routes: MockRoute[], method: string, url: string): MockRoute | null {
+  const unversioned = stripVersion(url);
+  return routes.find((route) => route.method === method && route.regex.test(unversioned)) ?? null;
+}
+
+/**
+ * Strip the query string and version prefix from an ESI URL
+ */
+export function stripVersion(url: string): string {
+  const [urlPath = url] = url.split('?');
+  return urlPath.replace(/^\/(latest|legacy|dev|v\d+)(?=\/)/, '');
+}
+
+function toRoute(fixture: MockRouteFixture): MockRoute {
+  const pattern = fixture.path.replace(/\{[a-z_]+\}/g, '(\\d+)');
+
+  return {
+    ...fixture,
+    method: fixture.method ?? 'GET',
+    regex: new RegExp(`^${pattern}$`),
+  };
+}
+
+function readJson<T>(file: string, fallback?: T): T {
+  if (!fs.existsSync(file) && fallback !== undefined) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+  } catch (error) {
+    throw new ConfigurationError(
+      'MOCK_ESI_FIXTURES_PATH',
+      `Invalid mock ESI fixture ${file}: ${(error as Error).message}`,
+    );
+  }
+}
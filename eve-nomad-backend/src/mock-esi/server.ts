@@ -0,0 +1,545 @@
+import crypto from 'crypto';
+import querystring from 'querystring';
+import { URL } from 'url';
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import jwt from 'jsonwebtoken';
+import { getRequiredScope } from '../config/esi-scopes';
+import { createLogger } from '../services/logger.service';
+import { findRoute, loadFixtures, MockCharacter, MockRoute, stripVersion } from './fixtures';
+
+/**
+ * Mock ESI + SSO Server
+ * Serves fixture data with the headers ESI sends (X-Pages, ETag, Expires, error-limit and
+ * rate-limit headers) and a minimal EVE SSO, so the backend runs end to end without CCP.
+ *
+ * Faults can be injected at random (`faultRate`) or queued through the control endpoints:
+ * - GET /_mock/faults: list queued faults
+ * - POST /_mock/faults: queue a fault, e.g. `{ "status": 420, "path": "/assets/", "count": 2 }`
+ * - DELETE /_mock/faults: clear queued faults
+ * - POST /_mock/reset: clear faults and start fresh error-limit and rate-limit windows
+ */
+
+const logger = createLogger({ module: 'mock-esi' });
+
+const TOKEN_SECRET = 'mock-esi-sso';
+const ACCESS_TOKEN_TTL_SECONDS = 1199;
+const DEFAULT_CACHE_SECONDS = 300;
+const SERVER_ERROR_STATUSES = [500, 502, 503, 504];
+const FAULT_STATUSES = [420, 429, ...SERVER_ERROR_STATUSES];
+const FIRST_MAIL_ID = 400000000;
+
+const STATUS_MESSAGES: Record<number, string> = {
+  420: 'This software has exceeded the error limit for ESI',
+  429: 'Too many requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Timeout contacting tranquility',
+};
+
+export interface MockEsiOptions {
+  fixturesPath?: string;
+  faultRate?: number; // Share of ESI requests (0-1) that fail with a random 5xx
+  errorLimit?: number; // Errors allowed per window before 420 (default 100)
+  errorLimitWindowSeconds?: number; // Default 60
+  rateLimit?: { tokens: number; windowSeconds: number }; // Per route group (default 150 per 15m)
+}
+
+export interface MockFault {
+  status: number;
+  path?: string; // Only fail requests whose path contains this text
+  remaining: number; // Requests left to fail
+  retryAfter?: number; // Seconds, for 429
+}
+
+interface MockResult {
+  status: number;
+  body?: unknown;
+}
+
+interface TokenClaims {
+  sub: string; // CHARACTER:EVE:<id>, as in EVE SSO access tokens
+  name: string;
+  scp: string[];
+  owner: string;
+  exp: number;
+}
+
+interface Grant {
+  characterId: number;
+  scopes: string[];
+}
+
+/**
+ * Create a mock ESI + SSO server. Call `listen()` on the result to start it.
+ */
+export function createMockEsiServer(options: MockEsiOptions = {}): FastifyInstance {
+  const fixtures = loadFixtures(options.fixturesPath);
+  const faultRate = options.faultRate ?? 0;
+  const errorLimit = options.errorLimit ?? 100;
+  const errorWindowMs = (options.errorLimitWindowSeconds ?? 60) * 1000;
+  const rateLimit = options.rateLimit ?? { tokens: 150, windowSeconds: 900 };
+
+  let faults: MockFault[] = [];
+  let errorWindow = { remain: errorLimit, resetAt: Date.now() + errorWindowMs };
+  const rateBuckets = new Map<string, { used: number; resetAt: number }>();
+  const authorizationCodes = new Map<string, Grant>();
+  let nextMailId = FIRST_MAIL_ID;
+
+  // Routes whose response depends on the request rather than a static fixture body
+  const dynamicBodies: Record<string, (request: FastifyRequest) => MockResult> = {
+    'POST /universe/names/': (request) => {
+      const ids = Array.isArray(request.body) ? (request.body as unknown[]) : [];
+      const names = ids.map((id) => fixtures.names.find((name) => name.id === id));
+
+      if (ids.length === 0) {
+        return { status: 400, body: { error: 'No IDs provided' } };
+      }
+      if (names.some((name) => !name)) {
+        return { status: 404, body: { error: 'Ensure all IDs are valid before resolving' } };
+      }
+      return { status: 200, body: names };
+    },
+    'POST /characters/{character_id}/mail/': () => ({ status: 201, body: nextMailId++ }),
+  };
+
+  const app = Fastify({ logger: false });
+
+  app.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string' },
+    (_request, body, done) => done(null, querystring.parse(body as string)),
+  );
+
+  // ===== Rate limit state =====
+
+  function currentErrorWindow() {
+    if (Date.now() >= errorWindow.resetAt) {
+      errorWindow = { remain: errorLimit, resetAt: Date.now() + errorWindowMs };
+    }
+    return errorWindow;
+  }
+
+  function currentBucket(group: string) {
+    const bucket = rateBuckets.get(group);
+    if (bucket && Date.now() < bucket.resetAt) {
+      return bucket;
+    }
+
+    const fresh = { used: 0, resetAt: Date.now() + rateLimit.windowSeconds * 1000 };
+    rateBuckets.set(group, fresh);
+    return fresh;
+  }
+
+  /**
+   * Send a response with ESI's error-limit and rate-limit headers, charging both budgets
+   */
+  function respond(
+    reply: FastifyReply,
+    route: MockRoute | null,
+    result: MockResult,
+    headers: Record<string, string> = {},
+  ): FastifyReply {
+    const window = currentErrorWindow();
+    if (result.status >= 400 && result.status !== 420 && result.status !== 429) {
+      window.remain = Math.max(0, window.remain - 1);
+    }
+
+    reply.headers({
+      ...headers,
+      'X-ESI-Error-Limit-Remain': String(window.remain),
+      'X-ESI-Error-Limit-Reset': String(secondsUntil(window.resetAt)),
+    });
+
+    if (route?.rateLimitGroup) {
+      const bucket = currentBucket(route.rateLimitGroup);
+      const cost = result.status === 429 ? 0 : tokenCost(result.status);
+      bucket.used += cost;
+
+      reply.headers({
+        'X-Ratelimit-Group': route.rateLimitGroup,
+        'X-Ratelimit-Limit': `${rateLimit.tokens}/${formatWindow(rateLimit.windowSeconds)}`,
+        'X-Ratelimit-Remaining': String(Math.max(0, rateLimit.tokens - bucket.used)),
+        'X-Ratelimit-Used': String(cost),
+      });
+    }
+
+    reply.code(result.status);
+    return result.body === undefined ? reply.send() : reply.send(result.body);
+  }
+
+  // ===== Faults =====
+
+  function takeFault(urlPath: string): MockFault | null {
+    const fault = faults.find((queued) => !queued.path || urlPath.includes(queued.path));
+    if (!fault) {
+      return null;
+    }
+
+    fault.remaining--;
+    faults = faults.filter((queued) => queued.remaining > 0);
+    return fault;
+  }
+
+  function randomFault(): MockFault | null {
+    if (faultRate <= 0 || Math.random() >= faultRate) {
+      return null;
+    }
+
+    const status =
+      SERVER_ERROR_STATUSES[Math.floor(Math.random() * SERVER_ERROR_STATUSES.length)] ?? 500;
+    return { status, remaining: 0 };
+  }
+
+  function sendFault(reply: FastifyReply, route: MockRoute | null, fault: MockFault) {
+    const body = { error: STATUS_MESSAGES[fault.status] ?? 'Error' };
+
+    if (fault.status === 420) {
+      return reply
+        .code(420)
+        .headers({
+          'X-ESI-Error-Limit-Remain': '0',
+          'X-ESI-Error-Limit-Reset': String(secondsUntil(currentErrorWindow().resetAt)),
+        })
+        .send(body);
+    }
+
+    if (fault.status === 429) {
+      const retryAfter = String(fault.retryAfter ?? 5);
+      return respond(reply, route, { status: 429, body }, { 'Retry-After': retryAfter });
+    }
+
+    return respond(reply, route, { status: fault.status, body });
+  }
+
+  // ===== Tokens =====
+
+  function findCharacter(characterId: number): MockCharacter | undefined {
+    return fixtures.characters.find((character) => character.characterId === characterId);
+  }
+
+  function issueTokens(character: MockCharacter, scopes: string[]) {
+    const claims = {
+      sub: `CHARACTER:EVE:${character.characterId}`,
+      name: character.characterName,
+      scp: scopes,
+      owner: ownerHash(character.characterId),
+    };
+    const refreshGrant: Grant = { characterId: character.characterId, scopes };
+
+    return {
+      access_token: jwt.sign(claims, TOKEN_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS }),
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      // Refresh tokens carry their grant so they keep working across mock restarts
+      refresh_token: Buffer.from(JSON.stringify(refreshGrant)).toString('base64url'),
+    };
+  }
+
+  function readBearer(request: FastifyRequest): TokenClaims | 'missing' | 'invalid' | 'expired' {
+    const header = request.headers.authorization;
+    if (!header?.startsWith('Bearer ')) {
+      return 'missing';
+    }
+
+    try {
+      return jwt.verify(header.slice('Bearer '.length), TOKEN_SECRET) as TokenClaims;
+    } catch (error) {
+      return error instanceof jwt.TokenExpiredError ? 'expired' : 'invalid';
+    }
+  }
+
+  function readRefreshToken(token: string): Grant | null {
+    try {
+      const grant = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as Grant;
+      return typeof grant.characterId === 'number' && Array.isArray(grant.scopes) ? grant : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // ===== SSO =====
+
+  app.get<{ Querystring: Record<string, string | undefined> }>(
+    '/v2/oauth/authorize',
+    async (request, reply) => {
+      const { response_type, redirect_uri, state, scope = '', character_id } = request.query;
+
+      if (response_type !== 'code' || !redirect_uri) {
+        return reply.code(400).send({
+          error: 'invalid_request',
+          error_description: 'response_type=code and redirect_uri are required',
+        });
+      }
+
+      // Log in as the first fixture character unless ?character_id= picks another
+      const character = character_id ? findCharacter(Number(character_id)) : fixtures.characters[0];
+
+      if (!character) {
+        return reply
+          .code(400)
+          .send({ error: 'invalid_request', error_description: 'Unknown mock character' });
+      }
+
+      // Characters only grant the requested scopes their fixture allows
+      const scopes = scope
+        .split(' ')
+        .filter((requested) => requested && character.scopes.includes(requested));
+
+      const code = crypto.randomBytes(16).toString('hex');
+      authorizationCodes.set(code, { characterId: character.characterId, scopes });
+
+      const location = new URL(redirect_uri);
+      location.searchParams.set('code', code);
+      if (state) {
+        location.searchParams.set('state', state);
+      }
+
+      return reply.redirect(location.toString());
+    },
+  );
+
+  app.post<{ Body: Record<string, string | undefined> }>(
+    '/v2/oauth/token',
+    async (request, reply) => {
+      if (!request.headers.authorization?.startsWith('Basic ')) {
+        return reply
+          .code(401)
+          .send({ error: 'invalid_client', error_description: 'Client authentication failed' });
+      }
+
+      const body = request.body ?? {};
+      let grant: Grant | null = null;
+
+      if (body['grant_type'] === 'authorization_code' && body['code']) {
+        grant = authorizationCodes.get(body['code']) ?? null;
+        authorizationCodes.delete(body['code']);
+      } else if (body['grant_type'] === 'refresh_token' && body['refresh_token']) {
+        grant = readRefreshToken(body['refresh_token']);
+      }
+
+      const character = grant ? findCharacter(grant.characterId) : undefined;
+
+      if (!grant || !character) {
+        return reply
+          .code(400)
+          .send({ error: 'invalid_grant', error_description: 'Grant not found or expired' });
+      }
+
+      return reply.send(issueTokens(character, grant.scopes));
+    },
+  );
+
+  app.get('/verify/', async (request, reply) => {
+    const claims = readBearer(request);
+
+    if (typeof claims === 'string') {
+      return reply.code(401).send({ error: `${claims} token` });
+    }
+
+    return reply.send({
+      CharacterID: Number(claims.sub.split(':')[2]),
+      CharacterName: claims.name,
+      ExpiresOn: new Date(claims.exp * 1000).toISOString().replace(/\.\d+Z$/, ''),
+      Scopes: claims.scp.join(' '),
+      TokenType: 'Character',
+      CharacterOwnerHash: claims.owner,
+      IntellectualProperty: 'EVE',
+    });
+  });
+
+  // ===== Control =====
+
+  app.get('/_mock/faults', async () => ({ faults }));
+
+  app.post<{ Body: { status: number; path?: string; count?: number; retryAfter?: number } }>(
+    '/_mock/faults',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          properties: {
+            status: { type: 'integer', enum: FAULT_STATUSES },
+            path: { type: 'string' },
+            count: { type: 'integer', minimum: 1 },
+            retryAfter: { type: 'integer', minimum: 0 },
+          },
+          required: ['status'],
+        },
+      },
+    },
+    async (request, reply) => {
+      const { status, path, count = 1, retryAfter } = request.body;
+      const fault: MockFault = { status, path, remaining: count, retryAfter };
+
+      faults.push(fault);
+      logger.info('Fault queued', { status, path, count });
+
+      return reply.code(201).send({ fault });
+    },
+  );
+
+  app.delete('/_mock/faults', async () => {
+    faults = [];
+    return { success: true };
+  });
+
+  app.post('/_mock/reset', async () => {
+    faults = [];
+    errorWindow = { remain: errorLimit, resetAt: Date.now() + errorWindowMs };
+    rateBuckets.clear();
+    authorizationCodes.clear();
+    return { success: true };
+  });
+
+  // ===== ESI =====
+
+  async function handleEsi(request: FastifyRequest, reply: FastifyReply) {
+    const urlPath = stripVersion(request.url);
+    const route = findRoute(fixtures.routes, request.method, request.url);
+
+    const fault = takeFault(urlPath) ?? randomFault();
+    if (fault) {
+      return sendFault(reply, route, fault);
+    }
+
+    if (currentErrorWindow().remain <= 0) {
+      return sendFault(reply, route, { status: 420, remaining: 0 });
+    }
+
+    if (!route) {
+      return respond(reply, null, { status: 404, body: { error: 'Not found' } });
+    }
+
+    if (route.rateLimitGroup) {
+      const bucket = currentBucket(route.rateLimitGroup);
+      if (bucket.used >= rateLimit.tokens) {
+        return respond(
+          reply,
+          route,
+          { status: 429, body: { error: STATUS_MESSAGES[429] } },
+          { 'Retry-After': String(secondsUntil(bucket.resetAt)) },
+        );
+      }
+    }
+
+    const params = route.regex.exec(urlPath)?.slice(1) ?? [];
+    const denied = authorize(request, route, urlPath, params);
+    if (denied) {
+      return respond(reply, route, denied);
+    }
+
+    const headers: Record<string, string> = {};
+    const result = resolveBody(request, route, params, headers);
+
+    if (request.method !== 'GET' || result.status !== 200) {
+      return respond(reply, route, result, headers);
+    }
+
+    // Cache windows are aligned like ESI's, so every caller sees the same Expires
+    const cacheMs = (route.cacheSeconds ?? DEFAULT_CACHE_SECONDS) * 1000;
+    const expiresAt = cacheMs > 0 ? Math.ceil((Date.now() + 1) / cacheMs) * cacheMs : Date.now();
+    const etag = `"${crypto.createHash('sha1').update(JSON.stringify(result.body)).digest('hex')}"`;
+
+    Object.assign(headers, {
+      ETag: etag,
+      Expires: new Date(expiresAt).toUTCString(),
+      'Last-Modified': new Date(expiresAt - cacheMs).toUTCString(),
+    });
+
+    if (request.headers['if-none-match'] === etag) {
+      return respond(reply, route, { status: 304 }, headers);
+    }
+
+    return respond(reply, route, result, headers);
+  }
+
+  function authorize(request: FastifyRequest, route: MockRoute, urlPath: string, params: string[]) {
+    const requiredScope = getRequiredScope(request.method, urlPath);
+    if (!requiredScope) {
+      return null;
+    }
+
+    const claims = readBearer(request);
+    if (claims === 'missing') {
+      return { status: 401, body: { error: 'authorization not provided' } };
+    }
+    if (typeof claims === 'string') {
+      return { status: 401, body: { error: `${claims} token` } };
+    }
+
+    const tokenCharacterId = claims.sub.split(':')[2];
+    if (route.path.startsWith('/characters/{character_id}/') && params[0] !== tokenCharacterId) {
+      return { status: 403, body: { error: 'token not valid for this character' } };
+    }
+
+    if (!claims.scp.includes(requiredScope)) {
+      return { status: 403, body: { error: 'token not valid for scope' } };
+    }
+
+    return null;
+  }
+
+  function resolveBody(
+    request: FastifyRequest,
+    route: MockRoute,
+    params: string[],
+    headers: Record<string, string>,
+  ): MockResult {
+    const dynamic = dynamicBodies[`${route.method} ${route.path}`];
+    if (dynamic) {
+      return dynamic(request);
+    }
+
+    if (route.byId) {
+      const body = route.byId[params[params.length - 1] ?? ''];
+      return body === undefined
+        ? { status: 404, body: { error: 'Not found' } }
+        : { status: route.status ?? 200, body };
+    }
+
+    if (route.pages) {
+      const query = request.query as Record<string, string | undefined>;
+      const page = parseInt(query['page'] ?? '1', 10);
+
+      if (!(page >= 1 && page <= route.pages.length)) {
+        return { status: 404, body: { error: 'Requested page does not exist' } };
+      }
+
+      headers['X-Pages'] = String(route.pages.length);
+      return { status: route.status ?? 200, body: route.pages[page - 1] };
+    }
+
+    return { status: route.status ?? 200, body: route.body };
+  }
+
+  app.route({ method: ['GET', 'POST', 'PUT', 'DELETE'], url: '/*', handler: handleEsi });
+
+  return app;
+}
+
+// ===== Helpers =====
+
+/**
+ * Rate limit tokens charged per response, as documented by ESI
+ */
+function tokenCost(status: number): number {
+  if (status < 300) return 2;
+  if (status < 400) return 1;
+  if (status < 500) return 5;
+  return 0;
+}
+
+function formatWindow(seconds: number): string {
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+function secondsUntil(timestamp: number): number {
+  return Math.max(0, Math.ceil((timestamp - Date.now()) / 1000));
+}
+
+function ownerHash(characterId: number): string {
+  return crypto.createHash('sha1').update(`mock-owner:${characterId}`).digest('base64');
+}
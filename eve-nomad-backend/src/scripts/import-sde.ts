@@ -0,0 +1,50 @@
+import 'dotenv/config';
+import { importSde } from '../services/sde-import.service';
+import { disconnectPrisma } from '../utils/prisma';
+
+/**
+ * Import CCP's Static Data Export
+ *
+ * Usage: pnpm sde:import [path] [--force] [--build <number>]
+ * The path defaults to SDE_PATH. Already imported builds are skipped unless --force is given.
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const buildIndex = args.indexOf('--build');
+  const buildNumber = buildIndex >= 0 ? parseInt(args[buildIndex + 1] ?? '', 10) : undefined;
+  const positional = args.filter(
+    (arg, index) => !arg.startsWith('--') && (buildIndex < 0 || index !== buildIndex + 1),
+  );
+  const sdePath = positional[0] ?? process.env['SDE_PATH'];
+
+  if (!sdePath) {
+    console.error('Usage: pnpm sde:import <path> [--force] [--build <number>] (or set SDE_PATH)');
+    process.exit(1);
+  }
+
+  if (buildNumber !== undefined && isNaN(buildNumber)) {
+    console.error('--build requires a numeric build number');
+    process.exit(1);
+  }
+
+  const result = await importSde(sdePath, { force, buildNumber });
+
+  if (result.skipped) {
+    console.info(`SDE build ${result.buildNumber} is already imported (use --force to re-import)`);
+  } else {
+    console.info(`Imported SDE build ${result.buildNumber} in ${result.duration}ms`);
+    for (const [table, rows] of Object.entries(result.rowCounts)) {
+      console.info(`  ${table}: ${rows} rows`);
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('SDE import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await disconnectPrisma();
+  });
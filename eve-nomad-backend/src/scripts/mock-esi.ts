@@ -0,0 +1,51 @@
+import 'dotenv/config';
+import { createMockEsiServer } from '../mock-esi/server';
+
+/**
+ * Run the mock ESI + SSO server
+ *
+ * Usage: pnpm mock:esi [--port <number>] [--fault-rate <0-1>] [--fixtures <path>]
+ * Defaults come from MOCK_ESI_PORT, MOCK_ESI_FAULT_RATE and MOCK_ESI_FIXTURES_PATH.
+ */
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const port = parseInt(option(args, '--port') ?? process.env['MOCK_ESI_PORT'] ?? '4010', 10);
+  const faultRate = parseFloat(
+    option(args, '--fault-rate') ?? process.env['MOCK_ESI_FAULT_RATE'] ?? '0',
+  );
+  const fixturesPath = option(args, '--fixtures') ?? process.env['MOCK_ESI_FIXTURES_PATH'];
+
+  if (isNaN(port) || isNaN(faultRate) || faultRate < 0 || faultRate > 1) {
+    console.error(
+      'Usage: pnpm mock:esi [--port <number>] [--fault-rate <0-1>] [--fixtures <path>]',
+    );
+    process.exit(1);
+  }
+
+  const server = createMockEsiServer({ fixturesPath, faultRate });
+  const address = await server.listen({ port, host: '0.0.0.0' });
+
+  console.info(`Mock ESI + SSO listening on ${address}`);
+  console.info(`  ESI_BASE_URL=${address}`);
+  console.info(`  EVE_SSO_BASE_URL=${address}`);
+  if (faultRate > 0) {
+    console.info(`  Failing ${Math.round(faultRate * 100)}% of ESI requests with 5xx`);
+  }
+
+  const shutdown = async () => {
+    await server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('Mock ESI server failed to start:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,215 @@
+import type { Prisma } from '@prisma/client';
+import * as assetService from './asset.service';
+import * as universeService from './universe.service';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+import { ValidationError } from '../types/errors';
+
+/**
+ * Asset Search Service
+ * Searches assets across all of a user's characters ("which alt has my Orca?").
+ *
+ * Each character's asset tree is flattened into IndexedAsset by the historical data job,
+ * keeping the path from the station or structure down to the item's container, so a search
+ * is a single database query instead of one paginated ESI call per character.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'asset-search' });
+
+const INSERT_BATCH_SIZE = 1000;
+const MAX_RESULTS = 200;
+const MIN_QUERY_LENGTH = 2;
+
+export type AssetSearchField = 'any' | 'name' | 'group' | 'marketGroup';
+
+interface IndexRow {
+  characterId: number;
+  itemId: bigint;
+  typeId: number;
+  typeName: string;
+  name: string | null;
+  groupId: number | null;
+  marketGroupId: number | null;
+  quantity: number;
+  locationFlag: string;
+  locationId: bigint;
+  locationName: string;
+  path: string[];
+  indexedAt: Date;
+}
+
+export interface AssetSearchMatch {
+  characterId: number;
+  characterName: string;
+  itemId: number;
+  typeId: number;
+  typeName: string;
+  name: string | null;
+  quantity: number;
+  locationFlag: string;
+  locationId: number;
+  locationName: string;
+  path: string[]; // Location, then each container or ship the item is inside
+  indexedAt: string;
+}
+
+/**
+ * Rebuild a character's search index from ESI. Returns the number of items indexed.
+ */
+export async function indexCharacterAssets(characterId: number): Promise<number> {
+  const tree = await assetService.getAssetTree(characterId);
+  const indexedAt = new Date();
+  const rows: IndexRow[] = [];
+
+  const walk = (
+    node: assetService.AssetNode,
+    location: assetService.AssetLocation,
+    path: string[],
+  ) => {
+    rows.push({
+      characterId,
+      itemId: BigInt(node.itemId),
+      typeId: node.typeId,
+      typeName: node.typeName,
+      name: node.name,
+      groupId: null,
+      marketGroupId: null,
+      quantity: node.quantity,
+      locationFlag: node.locationFlag,
+      locationId: BigInt(location.locationId),
+      locationName: location.locationName,
+      path,
+      indexedAt,
+    });
+
+    const childPath = [...path, node.name ?? node.typeName];
+    node.children.forEach((child) => walk(child, location, childPath));
+  };
+
+  tree.locations.forEach((location) =>
+    location.items.forEach((item) => walk(item, location, [location.locationName])),
+  );
+
+  const typeDetails = await universeService.getTypeDetails(rows.map((row) => row.typeId));
+  rows.forEach((row) => {
+    row.groupId = typeDetails.get(row.typeId)?.groupId ?? null;
+    row.marketGroupId = typeDetails.get(row.typeId)?.marketGroupId ?? null;
+  });
+
+  const batches: IndexRow[][] = [];
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    batches.push(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+
+  // Replace the whole index at once, so searches never see a half-written character
+  await prisma.$transaction([
+    prisma.indexedAsset.deleteMany({ where: { characterId } }),
+    ...batches.map((batch) => prisma.indexedAsset.createMany({ data: batch })),
+  ]);
+
+  logger.info('Asset index rebuilt', { characterId, items: rows.length });
+
+  return rows.length;
+}
+
+/**
+ * Search all of a user's characters' indexed assets by item or custom name,
+ * item group or market group (including its sub-groups)
+ * The query must still be at least two characters long once surrounding whitespace is trimmed
+ */
+export async function searchAssets(
+  userId: string,
+  query: string,
+  field: AssetSearchField = 'any',
+): Promise<AssetSearchMatch[]> {
+  const text = query.trim();
+  if (text.length < MIN_QUERY_LENGTH) {
+    throw new ValidationError(
+      `q must contain at least ${MIN_QUERY_LENGTH} non-blank characters`,
+      'q',
+      query,
+    );
+  }
+
+  const characters = await prisma.character.findMany({
+    where: { userId },
+    select: { characterId: true, characterName: true },
+  });
+
+  const characterNames = new Map(
+    characters.map((character) => [character.characterId, character.characterName]),
+  );
+  const term: Prisma.StringFilter = { contains: text, mode: 'insensitive' };
+
+  const conditions: Prisma.IndexedAssetWhereInput[] = [];
+  if (field === 'any' || field === 'name') {
+    conditions.push({ typeName: term }, { name: term });
+  }
+  if (field === 'any' || field === 'group') {
+    const groups = await prisma.sdeGroup.findMany({
+      where: { name: term },
+      select: { groupId: true },
+    });
+    conditions.push({ groupId: { in: groups.map((group) => group.groupId) } });
+  }
+  if (field === 'any' || field === 'marketGroup') {
+    conditions.push({ marketGroupId: { in: await findMarketGroupIds(term) } });
+  }
+
+  const rows = await prisma.indexedAsset.findMany({
+    where: { characterId: { in: [...characterNames.keys()] }, OR: conditions },
+    orderBy: [{ typeName: 'asc' }, { characterId: 'asc' }],
+    take: MAX_RESULTS,
+  });
+
+  return rows.map((row) => ({
+    characterId: row.characterId,
+    characterName: characterNames.get(row.characterId) ?? `Unknown ${row.characterId}`,
+    itemId: Number(row.itemId),
+    typeId: row.typeId,
+    typeName: row.typeName,
+    name: row.name,
+    quantity: row.quantity,
+    locationFlag: row.locationFlag,
+    locationId: Number(row.locationId),
+    locationName: row.locationName,
+    path: parsePath(row.path),
+    indexedAt: row.indexedAt.toISOString(),
+  }));
+}
+
+/**
+ * Market groups whose name matches, plus all of their sub-groups
+ * (so "Ships" finds every hull, not only types listed directly under it)
+ */
+async function findMarketGroupIds(term: Prisma.StringFilter): Promise<number[]> {
+  const matched = await prisma.sdeMarketGroup.findMany({
+    where: { name: term },
+    select: { marketGroupId: true },
+  });
+
+  const found = new Set(matched.map((group) => group.marketGroupId));
+  let parents = [...found];
+
+  while (parents.length > 0) {
+    const children = await prisma.sdeMarketGroup.findMany({
+      where: { parentGroupId: { in: parents } },
+      select: { marketGroupId: true },
+    });
+
+    parents = children.map((group) => group.marketGroupId).filter((id) => !found.has(id));
+    parents.forEach((id) => found.add(id));
+  }
+
+  return [...found];
+}
+
+/**
+ * Read the `path` JSON column of an indexed asset, keeping only its names
+ */
+export function parsePath(value: Prisma.JsonValue): string[] {
+  return Array.isArray(value)
+    ? value.filter((name): name is string => typeof name === 'string')
+    : [];
+}
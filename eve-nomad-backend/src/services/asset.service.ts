@@ -0,0 +1,185 @@
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+import * as marketService from './market.service';
+import { createLogger } from './logger.service';
+import type * as ESI from '../types/esi';
+
+/**
+ * Asset Service
+ * Turns ESI's flat asset list into a tree for the asset browser.
+ *
+ * An asset's `location_id` is either a place (station, structure, solar system) or the
+ * item ID of the ship or container holding it. Items are nested under their holder and
+ * the top-level items are grouped by place, with volume and estimated value totals.
+ */
+
+const logger = createLogger({ module: 'asset' });
+
+const NAMES_BATCH_SIZE = 1000; // Max item IDs per /assets/names/ request
+
+export type AssetLocationType = 'station' | 'structure' | 'solar_system' | 'other';
+
+export interface AssetNode {
+  itemId: number;
+  typeId: number;
+  typeName: string;
+  name: string | null; // Custom ship or container name
+  quantity: number;
+  locationFlag: string;
+  isSingleton: boolean;
+  isBlueprintCopy: boolean;
+  volume: number; // m³ of the stack, excluding contents
+  value: number; // Estimated ISK of the stack, excluding contents
+  children: AssetNode[];
+}
+
+export interface AssetLocation {
+  locationId: number;
+  locationName: string;
+  locationType: AssetLocationType;
+  itemCount: number; // Including items inside ships and containers
+  totalVolume: number;
+  totalValue: number;
+  items: AssetNode[];
+}
+
+export interface AssetTree {
+  itemCount: number;
+  totalVolume: number;
+  totalValue: number;
+  locations: AssetLocation[];
+}
+
+/**
+ * Get a character's assets nested under ships and containers and grouped by location,
+ * most valuable location first. `locationId` limits the result to one location.
+ */
+export async function getAssetTree(characterId: number, locationId?: number): Promise<AssetTree> {
+  const assets = await esiClient.getCharacterAssets(characterId);
+  const itemIds = new Set(assets.map((asset) => asset.item_id));
+
+  const roots = assets.filter((asset) => !itemIds.has(asset.location_id));
+  const rootLocationIds = [...new Set(roots.map((asset) => asset.location_id))];
+
+  const typeIds = assets.map((asset) => asset.type_id);
+  const [typeNames, typeDetails, prices, assetNames, locationNames] = await Promise.all([
+    universeService.getTypeNames(typeIds),
+    universeService.getTypeDetails(typeIds),
+    marketService.getItemPrices(),
+    getAssetNames(characterId, assets),
+    universeService.getLocationNames(rootLocationIds, characterId),
+  ]);
+
+  const nodes = new Map<number, AssetNode>();
+  for (const asset of assets) {
+    // Singletons (ships, containers, blueprints) can report a negative quantity
+    const quantity = asset.is_singleton ? 1 : asset.quantity;
+    const unitVolume = typeDetails.get(asset.type_id)?.volume ?? 0;
+    const unitPrice = asset.is_blueprint_copy ? 0 : (prices.get(asset.type_id) ?? 0);
+
+    nodes.set(asset.item_id, {
+      itemId: asset.item_id,
+      typeId: asset.type_id,
+      typeName: typeNames.get(asset.type_id) ?? `Unknown Type ${asset.type_id}`,
+      name: assetNames.get(asset.item_id) ?? null,
+      quantity,
+      locationFlag: asset.location_flag,
+      isSingleton: asset.is_singleton,
+      isBlueprintCopy: asset.is_blueprint_copy ?? false,
+      volume: quantity * unitVolume,
+      value: quantity * unitPrice,
+      children: [],
+    });
+  }
+
+  for (const asset of assets) {
+    nodes.get(asset.location_id)?.children.push(nodes.get(asset.item_id)!);
+  }
+
+  const locations = new Map<number, AssetLocation>();
+  for (const asset of roots) {
+    const location = locations.get(asset.location_id) ?? {
+      locationId: asset.location_id,
+      locationName: locationNames.get(asset.location_id) ?? `Unknown Location ${asset.location_id}`,
+      locationType: getLocationType(asset),
+      itemCount: 0,
+      totalVolume: 0,
+      totalValue: 0,
+      items: [],
+    };
+
+    const node = nodes.get(asset.item_id)!;
+    const totals = sumTree(node);
+
+    location.items.push(node);
+    location.itemCount += totals.itemCount;
+    location.totalVolume += totals.volume;
+    location.totalValue += totals.value;
+    locations.set(asset.location_id, location);
+  }
+
+  const result = [...locations.values()]
+    .filter((location) => locationId === undefined || location.locationId === locationId)
+    .sort((a, b) => b.totalValue - a.totalValue);
+
+  return {
+    itemCount: result.reduce((total, location) => total + location.itemCount, 0),
+    totalVolume: result.reduce((total, location) => total + location.totalVolume, 0),
+    totalValue: result.reduce((total, location) => total + location.totalValue, 0),
+    locations: result,
+  };
+}
+
+/**
+ * Resolve custom names of singleton items (only assembled ships and containers can be named)
+ * A failed batch is logged and its items are left unnamed
+ */
+async function getAssetNames(
+  characterId: number,
+  assets: ESI.Asset[],
+): Promise<Map<number, string>> {
+  const itemIds = assets.filter((asset) => asset.is_singleton).map((asset) => asset.item_id);
+  const batches: number[][] = [];
+  for (let i = 0; i < itemIds.length; i += NAMES_BATCH_SIZE) {
+    batches.push(itemIds.slice(i, i + NAMES_BATCH_SIZE));
+  }
+
+  const results = await Promise.allSettled(
+    batches.map((batch) => esiClient.getCharacterAssetNames(characterId, batch)),
+  );
+
+  const names = new Map<number, string>();
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      logger.warn('Failed to resolve asset names', {
+        characterId,
+        reason: String(result.reason),
+      });
+      return;
+    }
+
+    result.value
+      .filter((asset) => asset.name && asset.name !== 'None')
+      .forEach((asset) => names.set(asset.item_id, asset.name));
+  });
+
+  return names;
+}
+
+function getLocationType(asset: ESI.Asset): AssetLocationType {
+  if (asset.location_type === 'station' || asset.location_type === 'solar_system') {
+    return asset.location_type;
+  }
+  return universeService.isStructureId(asset.location_id) ? 'structure' : 'other';
+}
+
+function sumTree(node: AssetNode): { itemCount: number; volume: number; value: number } {
+  return node.children.map(sumTree).reduce(
+    (totals, child) => ({
+      itemCount: totals.itemCount + child.itemCount,
+      volume: totals.volume + child.volume,
+      value: totals.value + child.value,
+    }),
+    { itemCount: 1, volume: node.volume, value: node.value },
+  );
+}
@@ -201,6 +201,18 @@ export async function getUserCharacters(userId: string): Promise<Character[]> {
   });
 }
 
+/**
+ * Check whether a character belongs to a user
+ */
+export async function userOwnsCharacter(userId: string, characterId: number): Promise<boolean> {
+  const character = await prisma.character.findFirst({
+    where: { characterId, userId },
+    select: { id: true },
+  });
+
+  return character !== null;
+}
+
 /**
  * Remove character authorization
  */
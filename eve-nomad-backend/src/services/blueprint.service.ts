@@ -0,0 +1,250 @@
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+import * as assetService from './asset.service';
+import { parsePath } from './asset-search.service';
+import { activityName } from './industry.service';
+import { getPrisma } from '../utils/prisma';
+import { MissingScopeError, ReauthRequiredError } from '../types/errors';
+import type * as ESI from '../types/esi';
+
+/**
+ * Blueprint Service
+ * Builds a blueprint library across all of a user's characters, with each blueprint's
+ * efficiency, remaining runs, location and whether an industry job is using it.
+ *
+ * A blueprint can sit in a container or ship, in which case its location is only an item ID;
+ * the asset search index, or the character's assets when it is not indexed yet, gives the
+ * station and container path for it.
+ */
+
+const prisma = getPrisma();
+
+// A blueprint stays locked in its job until the job is delivered
+const IN_USE_STATUSES: ESI.IndustryJob['status'][] = ['active', 'paused', 'ready'];
+
+interface BlueprintLocation {
+  locationId: number;
+  locationName: string;
+  path: string[];
+}
+
+export interface BlueprintEntry {
+  characterId: number;
+  characterName: string;
+  itemId: number;
+  typeId: number;
+  typeName: string;
+  isCopy: boolean;
+  quantity: number; // More than 1 for a stack of originals
+  runs: number | null; // Runs left on a copy; null for originals
+  materialEfficiency: number;
+  timeEfficiency: number;
+  locationId: number;
+  locationName: string;
+  path: string[]; // Location, then each container the blueprint is inside
+  locationFlag: string;
+  inUse: boolean;
+  job: {
+    jobId: number;
+    activity: string;
+    status: ESI.IndustryJob['status'];
+    endDate: string;
+  } | null;
+}
+
+export interface BlueprintLibrary {
+  blueprints: BlueprintEntry[];
+  // Characters left out because they need to re-authorize or grant scopes
+  unavailableCharacterIds: number[];
+}
+
+/**
+ * Get the blueprints of all of a user's characters (or one of them), sorted by name
+ */
+export async function getBlueprintLibrary(
+  userId: string,
+  characterId?: number,
+): Promise<BlueprintLibrary> {
+  const characters = await prisma.character.findMany({
+    where: { userId, ...(characterId ? { characterId } : {}) },
+    select: { characterId: true, characterName: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const blueprints: BlueprintEntry[] = [];
+  const unavailableCharacterIds: number[] = [];
+
+  for (const character of characters) {
+    try {
+      blueprints.push(
+        ...(await getCharacterBlueprints(character.characterId, character.characterName)),
+      );
+    } catch (error) {
+      if (!(error instanceof MissingScopeError) && !(error instanceof ReauthRequiredError)) {
+        throw error;
+      }
+      unavailableCharacterIds.push(character.characterId);
+    }
+  }
+
+  blueprints.sort((a, b) => a.typeName.localeCompare(b.typeName) || a.characterId - b.characterId);
+
+  return { blueprints, unavailableCharacterIds };
+}
+
+async function getCharacterBlueprints(
+  characterId: number,
+  characterName: string,
+): Promise<BlueprintEntry[]> {
+  const [blueprints, jobs] = await Promise.all([
+    esiClient.getCharacterBlueprints(characterId),
+    getCharacterIndustryJobs(characterId),
+  ]);
+
+  if (blueprints.length === 0) {
+    return [];
+  }
+
+  const jobsByBlueprint = new Map(
+    jobs
+      .filter((job) => IN_USE_STATUSES.includes(job.status))
+      .map((job) => [job.blueprint_id, job]),
+  );
+
+  const [typeNames, locations] = await Promise.all([
+    universeService.getTypeNames(blueprints.map((blueprint) => blueprint.type_id)),
+    getLocations(characterId, blueprints),
+  ]);
+
+  return blueprints.map((blueprint) => {
+    const job = jobsByBlueprint.get(blueprint.item_id);
+    const location = locations.get(blueprint.item_id)!;
+
+    return {
+      characterId,
+      characterName,
+      itemId: blueprint.item_id,
+      typeId: blueprint.type_id,
+      typeName: typeNames.get(blueprint.type_id) ?? `Unknown Type ${blueprint.type_id}`,
+      isCopy: blueprint.quantity === -2,
+      quantity: blueprint.quantity > 0 ? blueprint.quantity : 1,
+      runs: blueprint.runs === -1 ? null : blueprint.runs,
+      materialEfficiency: blueprint.material_efficiency,
+      timeEfficiency: blueprint.time_efficiency,
+      ...location,
+      locationFlag: blueprint.location_flag,
+      inUse: !!job,
+      job: job
+        ? {
+            jobId: job.job_id,
+            activity: activityName(job.activity_id),
+            status: job.status,
+            endDate: job.end_date,
+          }
+        : null,
+    };
+  });
+}
+
+/**
+ * Industry jobs are only used to flag blueprints in use, so a character without the
+ * industry jobs scope still lists its blueprints, all reported as not in use
+ */
+async function getCharacterIndustryJobs(characterId: number): Promise<ESI.IndustryJob[]> {
+  try {
+    return await esiClient.getCharacterIndustryJobs(characterId);
+  } catch (error) {
+    if (error instanceof MissingScopeError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Blueprints directly in a hangar have a station or structure location. For ones inside a
+ * container, the indexed asset row gives the top-level location and the container path.
+ * Container and ship item IDs share the structure ID range, so unindexed blueprints in that
+ * range are looked up in the character's assets before anything is sent to /universe/structures/.
+ */
+async function getLocations(
+  characterId: number,
+  blueprints: ESI.Blueprint[],
+): Promise<Map<number, BlueprintLocation>> {
+  const indexed = await prisma.indexedAsset.findMany({
+    where: {
+      characterId,
+      itemId: { in: blueprints.map((blueprint) => BigInt(blueprint.item_id)) },
+    },
+    select: { itemId: true, locationId: true, locationName: true, path: true },
+  });
+
+  const locations = new Map<number, BlueprintLocation>();
+  indexed.forEach((row) =>
+    locations.set(Number(row.itemId), {
+      locationId: Number(row.locationId),
+      locationName: row.locationName,
+      path: parsePath(row.path),
+    }),
+  );
+
+  let unresolved = blueprints.filter((blueprint) => !locations.has(blueprint.item_id));
+
+  if (unresolved.some((blueprint) => universeService.isStructureId(blueprint.location_id))) {
+    const containers = await getContainerLocations(characterId);
+    unresolved.forEach((blueprint) => {
+      const container = containers.get(blueprint.location_id);
+      if (container) {
+        locations.set(blueprint.item_id, container);
+      }
+    });
+    unresolved = unresolved.filter((blueprint) => !locations.has(blueprint.item_id));
+  }
+
+  const locationNames = await universeService.getLocationNames(
+    unresolved.map((blueprint) => blueprint.location_id),
+    characterId,
+  );
+
+  for (const blueprint of unresolved) {
+    const locationName =
+      locationNames.get(blueprint.location_id) ?? `Unknown Location ${blueprint.location_id}`;
+
+    locations.set(blueprint.item_id, {
+      locationId: blueprint.location_id,
+      locationName,
+      path: [locationName],
+    });
+  }
+
+  return locations;
+}
+
+/**
+ * Where each item in a character's assets is, with the path down to and including it,
+ * named the same way as the asset search index. Blueprints inside an item take this path.
+ */
+async function getContainerLocations(characterId: number): Promise<Map<number, BlueprintLocation>> {
+  const tree = await assetService.getAssetTree(characterId);
+  const containers = new Map<number, BlueprintLocation>();
+
+  const walk = (
+    node: assetService.AssetNode,
+    location: assetService.AssetLocation,
+    path: string[],
+  ) => {
+    const nodePath = [...path, node.name ?? node.typeName];
+    containers.set(node.itemId, {
+      locationId: location.locationId,
+      locationName: location.locationName,
+      path: nodePath,
+    });
+    node.children.forEach((child) => walk(child, location, nodePath));
+  };
+
+  tree.locations.forEach((location) =>
+    location.items.forEach((item) => walk(item, location, [location.locationName])),
+  );
+
+  return containers;
+}
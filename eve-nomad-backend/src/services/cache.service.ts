@@ -9,10 +9,14 @@ import crypto from 'crypto';
 
 const prisma = new PrismaClient();
 
-interface CacheEntry {
+// Expired entries with an ETag are kept this long so they can be revalidated with If-None-Match
+const ETAG_RETENTION_SECONDS = parseInt(process.env['ESI_ETAG_RETENTION_SECONDS'] || '86400', 10);
+
+export interface CacheEntry {
   data: unknown;
   expiresAt: Date;
   etag?: string;
+  pages?: number; // X-Pages total for paginated endpoints
 }
 
 /**
@@ -95,6 +99,8 @@ export async function get(cacheKey: string): Promise<CacheEntry | null> {
               JSON.stringify({
                 data: cached.data,
                 expiresAt: cached.expiresAt,
+                etag: cached.etag ?? undefined,
+                pages: cached.pages ?? undefined,
               }),
               ttl,
             )
@@ -106,10 +112,11 @@ export async function get(cacheKey: string): Promise<CacheEntry | null> {
         return {
           data: cached.data,
           expiresAt: cached.expiresAt,
+          etag: cached.etag ?? undefined,
+          pages: cached.pages ?? undefined,
         };
       } else {
-        // Expired, delete from database
-        await prisma.cachedData.delete({ where: { cacheKey } });
+        // Expired, but kept as a revalidation candidate (see getStale)
         console.info(`[Cache] Database EXPIRED: ${cacheKey}`);
       }
     }
@@ -121,6 +128,64 @@ export async function get(cacheKey: string): Promise<CacheEntry | null> {
   return null;
 }
 
+/**
+ * Get a cached entry that has an ETag, even if it has expired
+ * Used to send conditional requests; expired entries only live in PostgreSQL
+ */
+export async function getStale(cacheKey: string): Promise<CacheEntry | null> {
+  try {
+    const cached = await prisma.cachedData.findUnique({
+      where: { cacheKey },
+    });
+
+    if (cached?.etag) {
+      return {
+        data: cached.data,
+        expiresAt: cached.expiresAt,
+        etag: cached.etag,
+        pages: cached.pages ?? undefined,
+      };
+    }
+  } catch (error) {
+    console.error(`[Cache] Database get error for ${cacheKey}:`, error);
+  }
+
+  return null;
+}
+
+/**
+ * Extend the expiry of an entry that ESI confirmed is unchanged (304 Not Modified)
+ */
+export async function extendExpiry(
+  cacheKey: string,
+  entry: CacheEntry,
+  expiresAt: Date,
+): Promise<void> {
+  const ttl = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
+
+  if (ttl <= 0) {
+    return;
+  }
+
+  if (redis.isConnected()) {
+    try {
+      await redis.set(cacheKey, JSON.stringify({ ...entry, expiresAt }), ttl);
+    } catch (error) {
+      console.error(`[Cache] Redis set error for ${cacheKey}:`, error);
+    }
+  }
+
+  try {
+    await prisma.cachedData.updateMany({
+      where: { cacheKey },
+      data: { expiresAt },
+    });
+    console.info(`[Cache] Revalidated: ${cacheKey} (TTL: ${ttl}s)`);
+  } catch (error) {
+    console.error(`[Cache] Database update error for ${cacheKey}:`, error);
+  }
+}
+
 /**
  * Set cached data in both Redis and PostgreSQL
  */
@@ -129,11 +194,13 @@ export async function set(
   data: unknown,
   expiresAt: Date,
   etag?: string,
+  pages?: number,
 ): Promise<void> {
   const entry: CacheEntry = {
     data,
     expiresAt,
     etag,
+    pages,
   };
 
   const ttl = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
@@ -162,10 +229,14 @@ export async function set(
         cacheKey,
         data: data as object,
         expiresAt,
+        etag: etag ?? null,
+        pages: pages ?? null,
       },
       update: {
         data: data as object,
         expiresAt,
+        etag: etag ?? null,
+        pages: pages ?? null,
       },
     });
     console.info(`[Cache] Database SET: ${cacheKey}`);
@@ -273,17 +344,28 @@ export function calculateExpiration(
   return new Date(Date.now() + defaultTtl * 1000);
 }
 
+/**
+ * Filter for entries that can be removed: expired without an ETag,
+ * or expired for longer than the ETag retention window
+ */
+export function removableEntriesFilter() {
+  const now = new Date();
+
+  return {
+    OR: [
+      { etag: null, expiresAt: { lt: now } },
+      { expiresAt: { lt: new Date(now.getTime() - ETAG_RETENTION_SECONDS * 1000) } },
+    ],
+  };
+}
+
 /**
  * Clean up expired cache entries
  */
 export async function cleanupExpired(): Promise<number> {
   try {
     const deleted = await prisma.cachedData.deleteMany({
-      where: {
-        expiresAt: {
-          lt: new Date(),
-        },
-      },
+      where: removableEntriesFilter(),
     });
 
     console.info(`[Cache] Cleaned up ${deleted.count} expired entries`);
@@ -0,0 +1,275 @@
+import fs from 'fs';
+import path from 'path';
+import { clearTimeout, setTimeout } from 'timers';
+import { AxiosAdapter, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createLogger, REDACT_FIELDS } from './logger.service';
+import { ConfigurationError } from '../types/errors';
+
+/**
+ * ESI Cassette Service
+ * Records ESI request/response pairs to a cassette file and replays them without network access,
+ * so captured production traffic can be reproduced locally and jobs can run against real payloads.
+ *
+ * Enabled with ESI_CASSETTE_MODE (`record` or `replay`) and ESI_CASSETTE_PATH.
+ * Request headers are never recorded; fields named in REDACT_FIELDS are removed from
+ * query parameters, bodies and response headers before anything is written.
+ */
+
+const logger = createLogger({ module: 'esi-cassette' });
+
+const CASSETTE_VERSION = 1;
+const REDACTED = '[REDACTED]';
+const REDACT_KEYS = REDACT_FIELDS.map((field) => field.toLowerCase());
+const WRITE_DELAY_MS = 1000; // Recorded responses are batched into one write per second
+
+// Writes any recorded responses not yet saved; set while recording
+let flushRecording: (() => Promise<void>) | null = null;
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  path: string;
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    params?: Record<string, unknown>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    data: unknown;
+  };
+}
+
+export interface Cassette {
+  version: number;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Read the cassette configuration from the environment, or null when cassettes are off
+ */
+export function getCassetteConfig(): CassetteConfig | null {
+  const mode = process.env['ESI_CASSETTE_MODE'];
+  const cassettePath = process.env['ESI_CASSETTE_PATH'];
+
+  if (!mode) {
+    return null;
+  }
+
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new ConfigurationError(
+      'ESI_CASSETTE_MODE',
+      `ESI_CASSETTE_MODE must be "record" or "replay", got "${mode}"`,
+    );
+  }
+
+  if (!cassettePath) {
+    throw new ConfigurationError('ESI_CASSETTE_PATH', 'ESI_CASSETTE_PATH is required');
+  }
+
+  return { mode, path: path.resolve(cassettePath) };
+}
+
+/**
+ * Wrap an axios adapter so requests are recorded to, or replayed from, a cassette
+ */
+export function createCassetteAdapter(config: CassetteConfig, network: AxiosAdapter): AxiosAdapter {
+  return config.mode === 'record'
+    ? recordingAdapter(config.path, network)
+    : replayAdapter(config.path);
+}
+
+/**
+ * Write recorded responses that have not been saved yet. Call before the process exits.
+ */
+export async function flushCassette(): Promise<void> {
+  await flushRecording?.();
+}
+
+/**
+ * Remove sensitive fields (matched case-insensitively against REDACT_FIELDS) from a value
+ */
+export function redact<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item) as unknown) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        isSensitive(key) ? REDACTED : redact(field as unknown),
+      ]),
+    ) as T;
+  }
+
+  return value;
+}
+
+function recordingAdapter(cassettePath: string, network: AxiosAdapter): AxiosAdapter {
+  // Recording appends, so several runs can build up one cassette
+  const cassette = fs.existsSync(cassettePath) ? readCassette(cassettePath) : newCassette();
+  logger.info('Recording ESI traffic', {
+    path: cassettePath,
+    existing: cassette.interactions.length,
+  });
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  // Writes are chained so an older snapshot never lands after a newer one
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+
+      const contents = `${JSON.stringify(cassette, null, 2)}\n`;
+      writing = writing
+        .then(async () => {
+          await fs.promises.mkdir(path.dirname(cassettePath), { recursive: true });
+          await fs.promises.writeFile(cassettePath, contents);
+        })
+        .catch((error) => {
+          logger.error('Failed to write ESI cassette', error as Error, { path: cassettePath });
+        });
+    }
+    return writing;
+  };
+  flushRecording = flush;
+
+  return async (requestConfig) => {
+    const response = await network(requestConfig);
+
+    cassette.interactions.push({
+      request: describeRequest(requestConfig),
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: redact(flattenHeaders(response.headers)),
+        data: redact(parseBody(response.data)),
+      },
+    });
+
+    timer ??= setTimeout(() => void flush(), WRITE_DELAY_MS);
+
+    return response;
+  };
+}
+
+function replayAdapter(cassettePath: string): AxiosAdapter {
+  if (!fs.existsSync(cassettePath)) {
+    throw new ConfigurationError('ESI_CASSETTE_PATH', `ESI cassette not found: ${cassettePath}`);
+  }
+
+  const interactions = new Map<string, CassetteInteraction[]>();
+  for (const interaction of readCassette(cassettePath).interactions) {
+    const key = interactionKey(interaction.request);
+    interactions.set(key, [...(interactions.get(key) ?? []), interaction]);
+  }
+
+  // Repeated requests get the recorded responses in order, then the last one again
+  const served = new Map<string, number>();
+  logger.info('Replaying ESI traffic', { path: cassettePath, requests: interactions.size });
+
+  return async (requestConfig): Promise<AxiosResponse> => {
+    const key = interactionKey(describeRequest(requestConfig));
+    const recorded = interactions.get(key);
+
+    if (!recorded) {
+      throw new ConfigurationError('ESI_CASSETTE_PATH', `No recorded ESI response for ${key}`);
+    }
+
+    const count = served.get(key) ?? 0;
+    served.set(key, count + 1);
+    const { response } = recorded[Math.min(count, recorded.length - 1)]!;
+
+    return {
+      data: response.data,
+      status: response.status,
+      statusText: response.statusText,
+      headers: AxiosHeaders.from(response.headers),
+      config: requestConfig,
+      request: {},
+    };
+  };
+}
+
+function describeRequest(config: InternalAxiosRequestConfig): CassetteInteraction['request'] {
+  const params = config.params as Record<string, unknown> | undefined;
+  const body = parseBody(config.data);
+
+  return {
+    method: (config.method ?? 'get').toUpperCase(),
+    url: config.url ?? '',
+    ...(params && Object.keys(params).length > 0 ? { params: redact(params) } : {}),
+    ...(body !== undefined ? { body: redact(body) } : {}),
+  };
+}
+
+/**
+ * Identify a request by method, URL, sorted query parameters and body
+ */
+function interactionKey(request: CassetteInteraction['request']): string {
+  const params = Object.entries(request.params ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join('&');
+  const body = request.body !== undefined ? ` ${JSON.stringify(request.body)}` : '';
+
+  return `${request.method} ${request.url}${params ? `?${params}` : ''}${body}`;
+}
+
+/**
+ * Bodies reach the adapter serialized; store them as JSON where possible
+ */
+function parseBody(data: unknown): unknown {
+  if (data === '') {
+    return undefined;
+  }
+  if (typeof data !== 'string') {
+    return data;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function flattenHeaders(headers: AxiosResponse['headers']): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(AxiosHeaders.from(headers as AxiosHeaders).toJSON()).map(([key, value]) => [
+      key.toLowerCase(),
+      Array.isArray(value) ? value.join(', ') : String(value),
+    ]),
+  );
+}
+
+function isSensitive(key: string): boolean {
+  const lowerKey = key.toLowerCase();
+  return REDACT_KEYS.some((field) => lowerKey === field || lowerKey.endsWith(`-${field}`));
+}
+
+function newCassette(): Cassette {
+  return { version: CASSETTE_VERSION, recordedAt: new Date().toISOString(), interactions: [] };
+}
+
+function readCassette(cassettePath: string): Cassette {
+  try {
+    return JSON.parse(fs.readFileSync(cassettePath, 'utf8')) as Cassette;
+  } catch (error) {
+    throw new ConfigurationError(
+      'ESI_CASSETTE_PATH',
+      `Invalid ESI cassette ${cassettePath}: ${(error as Error).message}`,
+    );
+  }
+}
@@ -2,7 +2,18 @@ import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import * as cache from './cache.service';
 import * as rateLimit from './rate-limiter.service';
 import * as authService from './auth.service';
-import { retry } from '../utils/retry.util';
+import * as redis from './redis.service';
+import { createCassetteAdapter, getCassetteConfig } from './esi-cassette.service';
+import { retry, sleep } from '../utils/retry.util';
+import { getMissingScopes } from '../config/esi-scopes';
+import {
+  ESIError,
+  ESIErrorLimitError,
+  ESINotFoundError,
+  ESIRateLimitError,
+  MissingScopeError,
+  ReauthRequiredError,
+} from '../types/errors';
 import type * as ESI from '../types/esi';
 
 /**
@@ -10,10 +21,37 @@ import type * as ESI from '../types/esi';
  * Production-ready client with caching, rate limiting, retry logic, and auto token management
  */
 
+const PAGE_CONCURRENCY = parseInt(process.env['ESI_PAGE_CONCURRENCY'] || '5', 10);
+const COALESCE_LOCK_TTL_MS = 15000; // Covers the 10s request timeout plus a retry
+const COALESCE_POLL_INTERVAL_MS = 250;
+
+/**
+ * ESI response data together with how it was obtained
+ */
+export interface ESIResponse<T> {
+  data: T;
+  cached: boolean; // Served from Redis/PostgreSQL, or revalidated with a 304
+  statusCode: number;
+  etag?: string;
+  expiresAt?: Date;
+  pages: number; // X-Pages total, 1 for unpaginated endpoints
+}
+
+type ESIWriteMethod = 'POST' | 'PUT' | 'DELETE';
+
+export interface ESIRequestOptions {
+  params?: Record<string, unknown>;
+  characterId?: number;
+  skipCache?: boolean;
+  etag?: string;
+}
+
 export class ESIClient {
   private client: AxiosInstance;
   private baseURL: string;
   private userAgent: string;
+  private inFlight = new Map<string, Promise<ESIResponse<unknown>>>();
+  private replaying = false;
 
   constructor() {
     this.baseURL = process.env['ESI_BASE_URL'] || 'https://esi.evetech.net';
@@ -29,6 +67,16 @@ export class ESIClient {
       validateStatus: () => true, // Don't throw on any status code
     });
 
+    // Record traffic to, or replay it from, a cassette file (ESI_CASSETTE_MODE)
+    const cassette = getCassetteConfig();
+    if (cassette) {
+      this.client.defaults.adapter = createCassetteAdapter(
+        cassette,
+        axios.getAdapter(axios.defaults.adapter),
+      );
+      this.replaying = cassette.mode === 'replay';
+    }
+
     this.setupInterceptors();
   }
 
@@ -39,13 +87,21 @@ export class ESIClient {
         await rateLimit.waitForReset(errorThrottle.waitSeconds, errorThrottle.reason);
       }
 
+      // Hold the request while its route group's bucket is low (priority comes from the job context)
+      if (config.url) {
+        await rateLimit.acquireRateLimit(config.url);
+      }
+
       console.info(`[ESI] ${config.method?.toUpperCase()} ${config.url}`);
       return config;
     });
 
     this.client.interceptors.response.use((response) => {
       rateLimit.trackErrorLimit(response.headers as Record<string, string | string[]>);
-      rateLimit.trackRateLimit(response.headers as Record<string, string | string[]>);
+      rateLimit.trackRateLimit(
+        response.headers as Record<string, string | string[]>,
+        response.config.url,
+      );
 
       const errorLimit = response.headers['x-esi-error-limit-remain'];
       console.info(
@@ -56,36 +112,173 @@ export class ESIClient {
     });
   }
 
-  private async get<T>(
+  private async get<T>(endpoint: string, options?: ESIRequestOptions): Promise<T> {
+    const response = await this.request<T>(endpoint, options);
+    return response.data;
+  }
+
+  /**
+   * Fetch every page of a paginated endpoint and concatenate the results
+   */
+  private async getAllPages<T>(endpoint: string, options?: ESIRequestOptions): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.streamPages<T>(endpoint, options)) {
+      items.push(...page);
+    }
+    return items;
+  }
+
+  /**
+   * Yield the pages of a paginated endpoint in order
+   * The first page reports the total via X-Pages; the remaining pages are fetched
+   * in parallel batches, each cached under its own key
+   */
+  private async *streamPages<T>(
     endpoint: string,
-    options?: {
-      params?: Record<string, unknown>;
-      characterId?: number;
-      skipCache?: boolean;
-      etag?: string;
-    },
-  ): Promise<T> {
+    options?: ESIRequestOptions,
+  ): AsyncGenerator<T[]> {
+    const fetchPage = (page: number) =>
+      this.request<T[]>(endpoint, { ...options, params: { ...options?.params, page } });
+
+    // Pages can disappear if the data shrinks between requests
+    const fetchLaterPage = (page: number) =>
+      fetchPage(page).then(
+        (result) => result.data,
+        (error: unknown) => {
+          if (error instanceof ESINotFoundError) {
+            return [];
+          }
+          throw error;
+        },
+      );
+
+    const first = await fetchPage(1);
+    yield first.data;
+
+    let nextPage = 2;
+    while (nextPage <= first.pages) {
+      const batchSize = Math.min(await this.getPageConcurrency(), first.pages - nextPage + 1);
+      const batch = Array.from({ length: batchSize }, (_, i) => nextPage + i);
+      nextPage += batchSize;
+
+      const results = await Promise.all(batch.map(fetchLaterPage));
+      for (const result of results) {
+        yield result;
+      }
+    }
+  }
+
+  /**
+   * Fetch pages one at a time while close to the error limit,
+   * so a failing endpoint cannot burn through the remaining budget in one batch
+   */
+  private async getPageConcurrency(): Promise<number> {
+    const errorThrottle = await rateLimit.shouldThrottleErrors();
+    return errorThrottle.shouldWait ? 1 : Math.max(PAGE_CONCURRENCY, 1);
+  }
+
+  /**
+   * GET any ESI endpoint, returning the data with cache and response metadata
+   * Endpoint templates such as `/latest/characters/{character_id}/wallet/`
+   * are filled in from `characterId`
+   */
+  async request<T>(endpointTemplate: string, options?: ESIRequestOptions): Promise<ESIResponse<T>> {
+    const endpoint = options?.characterId
+      ? endpointTemplate.replace('{character_id}', String(options.characterId))
+      : endpointTemplate;
+
     const cacheKey = cache.generateCacheKey(endpoint, options?.params);
 
     if (!options?.skipCache) {
       const cached = await cache.get(cacheKey);
       if (cached) {
-        return cached.data as T;
+        return this.fromCache<T>(cached);
       }
     }
 
-    let accessToken: string | undefined;
-    if (options?.characterId) {
-      try {
-        const result = await authService.getCharacterWithValidToken(options.characterId);
-        accessToken = result.accessToken;
-      } catch (error) {
-        console.error(`[ESI] Failed to get token for character ${options.characterId}:`, error);
-        throw new Error('REAUTH_REQUIRED');
+    // Concurrent callers for the same data share a single upstream request
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      return pending as Promise<ESIResponse<T>>;
+    }
+
+    const fetching = this.fetchCoalesced<T>(endpoint, cacheKey, options).finally(() => {
+      this.inFlight.delete(cacheKey);
+    });
+
+    this.inFlight.set(cacheKey, fetching);
+    return fetching;
+  }
+
+  /**
+   * Fetch while holding a short Redis lock, so other workers that miss the cache
+   * at the same time wait for this result instead of repeating the request
+   */
+  private async fetchCoalesced<T>(
+    endpoint: string,
+    cacheKey: string,
+    options?: ESIRequestOptions,
+  ): Promise<ESIResponse<T>> {
+    if (options?.skipCache || !redis.isConnected()) {
+      return this.fetch<T>(endpoint, cacheKey, options);
+    }
+
+    const lockKey = `lock:${cacheKey}`;
+    const lockToken = await redis.acquireLock(lockKey, COALESCE_LOCK_TTL_MS);
+
+    if (!lockToken) {
+      const cached = await this.waitForCoalescedResult<T>(cacheKey, lockKey);
+      if (cached) {
+        return cached;
       }
+      // The other worker failed or got an uncacheable response
+      return this.fetch<T>(endpoint, cacheKey, options);
+    }
+
+    try {
+      return await this.fetch<T>(endpoint, cacheKey, options);
+    } finally {
+      await redis.releaseLock(lockKey, lockToken);
     }
+  }
+
+  private async waitForCoalescedResult<T>(
+    cacheKey: string,
+    lockKey: string,
+  ): Promise<ESIResponse<T> | null> {
+    const deadline = Date.now() + COALESCE_LOCK_TTL_MS;
+
+    while (Date.now() < deadline) {
+      await sleep(COALESCE_POLL_INTERVAL_MS);
+
+      // Check the lock first: the holder caches its result before releasing it
+      const lockHeld = await redis.exists(lockKey);
+      const cached = await cache.get(cacheKey);
+
+      if (cached) {
+        return this.fromCache<T>(cached);
+      }
+      if (!lockHeld) {
+        return null;
+      }
+    }
+
+    return null;
+  }
+
+  private async fetch<T>(
+    endpoint: string,
+    cacheKey: string,
+    options?: ESIRequestOptions,
+  ): Promise<ESIResponse<T>> {
+    // Expired entries keep their ETag, so ESI can answer 304 instead of resending the data
+    const etag = options?.etag ?? (await cache.getStale(cacheKey))?.etag;
+
+    const accessToken = options?.characterId
+      ? await this.getAccessToken(options.characterId, 'GET', endpoint)
+      : undefined;
 
-    const response = await retry(
+    return retry(
       async () => {
         const config: AxiosRequestConfig = {
           params: options?.params,
@@ -96,11 +289,12 @@ export class ESIClient {
           config.headers!.Authorization = `Bearer ${accessToken}`;
         }
 
-        if (options?.etag) {
-          config.headers!['If-None-Match'] = options.etag;
+        if (etag) {
+          config.headers!['If-None-Match'] = etag;
         }
 
-        return await this.client.get(endpoint, config);
+        const response = await this.client.get(endpoint, config);
+        return this.handleResponse<T>(response, cacheKey, options?.characterId);
       },
       {
         onRetry: (attempt, error, delayMs) => {
@@ -110,58 +304,167 @@ export class ESIClient {
         },
       },
     );
+  }
 
-    return this.handleResponse<T>(response, cacheKey);
+  private fromCache<T>(entry: cache.CacheEntry): ESIResponse<T> {
+    return {
+      data: entry.data as T,
+      cached: true,
+      statusCode: 200,
+      etag: entry.etag,
+      expiresAt: entry.expiresAt,
+      pages: entry.pages ?? 1,
+    };
   }
 
-  private async handleResponse<T>(response: AxiosResponse, cacheKey: string): Promise<T> {
+  /**
+   * Get a valid access token for a character, checking it has the scope the endpoint needs
+   */
+  private async getAccessToken(
+    characterId: number,
+    method: ESIWriteMethod | 'GET',
+    endpoint: string,
+  ): Promise<string> {
+    // Replayed responses were authorized when recorded, so no stored token is needed
+    if (this.replaying) {
+      return 'replay';
+    }
+
+    let accessToken: string;
+    let grantedScopes: string[];
+    try {
+      const result = await authService.getCharacterWithValidToken(characterId);
+      accessToken = result.accessToken;
+      grantedScopes = result.character.scopes;
+    } catch (error) {
+      console.error(`[ESI] Failed to get token for character ${characterId}:`, error);
+      throw new ReauthRequiredError(characterId);
+    }
+
+    // Fail before calling ESI, which would only answer with a generic 403
+    const missingScopes = getMissingScopes(method, endpoint, grantedScopes);
+    if (missingScopes.length > 0) {
+      throw new MissingScopeError(characterId, missingScopes, endpoint);
+    }
+
+    return accessToken;
+  }
+
+  /**
+   * Send a POST, PUT or DELETE request. Responses are never cached.
+   * POSTs are only retried when marked idempotent, so a retry cannot send a mail twice.
+   */
+  private async send<T>(
+    method: ESIWriteMethod,
+    endpoint: string,
+    options?: { body?: unknown; characterId?: number; idempotent?: boolean },
+  ): Promise<T> {
+    const accessToken = options?.characterId
+      ? await this.getAccessToken(options.characterId, method, endpoint)
+      : undefined;
+
+    const attempt = async () => {
+      const response = await this.client.request({
+        method,
+        url: endpoint,
+        data: options?.body,
+        headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+      });
+      return this.handleResponse<T>(response, null, options?.characterId);
+    };
+
+    const idempotent = options?.idempotent ?? method !== 'POST';
+    const response = idempotent
+      ? await retry(attempt, {
+          onRetry: (attemptNumber, error, delayMs) => {
+            console.warn(
+              `[ESI] Retry attempt ${attemptNumber} for ${method} ${endpoint} after ${delayMs}ms: ${error.message}`,
+            );
+          },
+        })
+      : await attempt();
+
+    return response.data;
+  }
+
+  private async handleResponse<T>(
+    response: AxiosResponse,
+    cacheKey: string | null,
+    characterId?: number,
+  ): Promise<ESIResponse<T>> {
     const { status, data, headers } = response;
+    const endpoint = response.config.url ?? '';
+    const pages = parseInt(headers['x-pages'] || '1', 10) || 1;
+    const etag: string | undefined = headers['etag'];
 
     if (status === 200) {
       const expiresAt = cache.calculateExpiration(headers['cache-control'], headers['expires']);
-      const etag = headers['etag'];
 
-      await cache.set(cacheKey, data, expiresAt, etag);
-      return data as T;
+      if (cacheKey) {
+        await cache.set(cacheKey, data, expiresAt, etag, pages);
+      }
+      return { data: data as T, cached: false, statusCode: status, etag, expiresAt, pages };
     }
 
-    if (status === 304) {
-      const cached = await cache.get(cacheKey);
+    if (status === 304 && cacheKey) {
+      const cached = await cache.getStale(cacheKey);
       if (cached) {
-        return cached.data as T;
+        const expiresAt = cache.calculateExpiration(headers['cache-control'], headers['expires']);
+        await cache.extendExpiry(cacheKey, cached, expiresAt);
+
+        return {
+          data: cached.data as T,
+          cached: true,
+          statusCode: status,
+          etag: etag ?? cached.etag,
+          expiresAt,
+          pages: cached.pages ?? pages,
+        };
       }
-      throw new Error('304 Not Modified but no cached data found');
+      throw new ESIError('304 Not Modified but no cached data found', endpoint, status);
     }
 
-    if (status === 401 || status === 403) {
-      throw new Error('REAUTH_REQUIRED');
+    if ((status === 401 || status === 403) && characterId) {
+      throw new ReauthRequiredError(characterId);
     }
 
     if (status === 404) {
-      return null as T;
+      throw new ESINotFoundError(endpoint);
     }
 
+    // Both limits wait for the reset before throwing, so the retry can go ahead immediately
     if (status === 420) {
       const resetSeconds = rateLimit.parseRetryAfter(headers['retry-after']);
       await rateLimit.waitForReset(resetSeconds, 'Error limit exceeded (420)');
-      throw new Error('ESI_ERROR_LIMIT_EXCEEDED');
+      throw new ESIErrorLimitError(
+        endpoint,
+        parseInt(headers['x-esi-error-limit-remain'] || '0', 10) || 0,
+      );
     }
 
     if (status === 429) {
       const resetSeconds = rateLimit.parseRetryAfter(headers['retry-after']);
       await rateLimit.waitForReset(resetSeconds, 'Rate limit exceeded (429)');
-      throw new Error('ESI_RATE_LIMIT_EXCEEDED');
+      throw new ESIRateLimitError(endpoint, resetSeconds);
     }
 
     if (status >= 500) {
-      throw new Error(`ESI server error: ${status} - ${data?.error || 'Unknown'}`);
+      throw new ESIError(
+        `ESI server error: ${status} - ${data?.error || 'Unknown'}`,
+        endpoint,
+        status,
+      );
     }
 
     if (status >= 400) {
-      throw new Error(`ESI client error: ${status} - ${data?.error || 'Unknown'}`);
+      throw new ESIError(
+        `ESI client error: ${status} - ${data?.error || 'Unknown'}`,
+        endpoint,
+        status,
+      );
     }
 
-    return data as T;
+    return { data: data as T, cached: false, statusCode: status, etag, pages };
   }
 
   // ===== PUBLIC ENDPOINTS (No Authentication) =====
@@ -178,10 +481,29 @@ export class ESIClient {
     return this.get<ESI.SolarSystem>(`/latest/universe/systems/${systemId}/`);
   }
 
+  /**
+   * Resolve up to 1000 IDs to names and categories in one request
+   * ESI rejects the whole batch with a 404 if any ID is invalid
+   */
+  async resolveUniverseNames(ids: number[]): Promise<ESI.UniverseName[]> {
+    return this.send<ESI.UniverseName[]>('POST', '/latest/universe/names/', {
+      body: ids,
+      idempotent: true,
+    });
+  }
+
   async getCharacterPublicInfo(characterId: number): Promise<ESI.CharacterPublicInfo> {
     return this.get<ESI.CharacterPublicInfo>(`/latest/characters/${characterId}/`);
   }
 
+  async getCorporationPublicInfo(corporationId: number): Promise<ESI.CorporationPublicInfo> {
+    return this.get<ESI.CorporationPublicInfo>(`/latest/corporations/${corporationId}/`);
+  }
+
+  async getStation(stationId: number): Promise<ESI.Station> {
+    return this.get<ESI.Station>(`/latest/universe/stations/${stationId}/`);
+  }
+
   async getMarketPrices(): Promise<ESI.MarketPrice[]> {
     return this.get<ESI.MarketPrice[]>('/latest/markets/prices/');
   }
@@ -204,19 +526,93 @@ export class ESIClient {
     return this.get<number>(`/latest/characters/${characterId}/wallet/`, { characterId });
   }
 
+  /**
+   * Get one page of a character's wallet journal (newest first, last 30 days)
+   * The response's `pages` holds the total page count
+   */
+  async getCharacterWalletJournalPage(
+    characterId: number,
+    page = 1,
+  ): Promise<ESIResponse<ESI.WalletJournalEntry[]>> {
+    return this.request<ESI.WalletJournalEntry[]>(
+      `/latest/characters/${characterId}/wallet/journal/`,
+      { characterId, params: { page } },
+    );
+  }
+
+  async getCharacterWalletTransactions(
+    characterId: number,
+    fromId?: number,
+  ): Promise<ESI.WalletTransaction[]> {
+    return this.get<ESI.WalletTransaction[]>(
+      `/latest/characters/${characterId}/wallet/transactions/`,
+      {
+        characterId,
+        params: fromId ? { from_id: fromId } : undefined,
+      },
+    );
+  }
+
   async getCharacterAssets(characterId: number): Promise<ESI.Asset[]> {
-    return this.get<ESI.Asset[]>(`/latest/characters/${characterId}/assets/`, { characterId });
+    return this.getAllPages<ESI.Asset>(`/latest/characters/${characterId}/assets/`, {
+      characterId,
+    });
   }
 
-  async getCharacterMail(characterId: number): Promise<ESI.MailHeader[]> {
-    return this.get<ESI.MailHeader[]>(`/latest/characters/${characterId}/mail/`, { characterId });
+  /**
+   * Stream a character's assets page by page (up to 1000 items per page)
+   */
+  streamCharacterAssets(characterId: number): AsyncGenerator<ESI.Asset[]> {
+    return this.streamPages<ESI.Asset>(`/latest/characters/${characterId}/assets/`, {
+      characterId,
+    });
   }
 
-  async getCharacterMailBody(
-    characterId: number,
-    mailId: number,
-  ): Promise<{ body: string; subject: string; from: number }> {
-    return this.get(`/latest/characters/${characterId}/mail/${mailId}/`, { characterId });
+  async getCharacterBlueprints(characterId: number): Promise<ESI.Blueprint[]> {
+    return this.getAllPages<ESI.Blueprint>(`/latest/characters/${characterId}/blueprints/`, {
+      characterId,
+    });
+  }
+
+  /**
+   * Get the custom names of a character's ships and containers (max 1000 item IDs per call)
+   * ESI rejects the whole batch if any ID is not one of the character's items
+   */
+  async getCharacterAssetNames(characterId: number, itemIds: number[]): Promise<ESI.AssetName[]> {
+    return this.send<ESI.AssetName[]>('POST', `/latest/characters/${characterId}/assets/names/`, {
+      body: itemIds,
+      characterId,
+      idempotent: true,
+    });
+  }
+
+  /**
+   * Get up to 50 of a character's mail headers, newest first.
+   * Pass `lastMailId` to get the headers older than that mail.
+   */
+  async getCharacterMail(characterId: number, lastMailId?: number): Promise<ESI.MailHeader[]> {
+    return this.get<ESI.MailHeader[]>(`/latest/characters/${characterId}/mail/`, {
+      characterId,
+      params: lastMailId ? { last_mail_id: lastMailId } : undefined,
+    });
+  }
+
+  async getCharacterMailBody(characterId: number, mailId: number): Promise<ESI.MailBody> {
+    return this.get<ESI.MailBody>(`/latest/characters/${characterId}/mail/${mailId}/`, {
+      characterId,
+    });
+  }
+
+  async getCharacterMailLabels(characterId: number): Promise<ESI.MailLabels> {
+    return this.get<ESI.MailLabels>(`/latest/characters/${characterId}/mail/labels/`, {
+      characterId,
+    });
+  }
+
+  async getCharacterMailingLists(characterId: number): Promise<ESI.MailingList[]> {
+    return this.get<ESI.MailingList[]>(`/latest/characters/${characterId}/mail/lists/`, {
+      characterId,
+    });
   }
 
   async getCharacterOrders(characterId: number): Promise<ESI.MarketOrder[]> {
@@ -225,9 +621,27 @@ export class ESIClient {
     });
   }
 
-  async getCharacterIndustryJobs(characterId: number): Promise<ESI.IndustryJob[]> {
+  /**
+   * Get a character's closed (cancelled, expired or filled) orders from the last 90 days
+   */
+  async getCharacterOrderHistory(characterId: number): Promise<ESI.MarketOrderHistoryEntry[]> {
+    return this.getAllPages<ESI.MarketOrderHistoryEntry>(
+      `/latest/characters/${characterId}/orders/history/`,
+      { characterId },
+    );
+  }
+
+  /**
+   * Get a character's industry jobs. Completed jobs (delivered, cancelled or reverted in the
+   * last 90 days) are only included with `includeCompleted`.
+   */
+  async getCharacterIndustryJobs(
+    characterId: number,
+    includeCompleted = false,
+  ): Promise<ESI.IndustryJob[]> {
     return this.get<ESI.IndustryJob[]>(`/latest/characters/${characterId}/industry/jobs/`, {
       characterId,
+      params: includeCompleted ? { include_completed: true } : undefined,
     });
   }
 
@@ -237,6 +651,60 @@ export class ESIClient {
     });
   }
 
+  /**
+   * Get the pins, links and routes of one of a character's colonies. ESI only updates
+   * the layout when the character views the colony in game (see `last_update`).
+   */
+  async getCharacterPlanet(characterId: number, planetId: number): Promise<ESI.PlanetLayout> {
+    return this.get<ESI.PlanetLayout>(`/latest/characters/${characterId}/planets/${planetId}/`, {
+      characterId,
+    });
+  }
+
+  /**
+   * Send an EVE mail as the character, returning the new mail ID
+   */
+  async sendCharacterMail(characterId: number, mail: ESI.NewMail): Promise<number> {
+    const mailId = await this.send<number>('POST', `/latest/characters/${characterId}/mail/`, {
+      body: mail,
+      characterId,
+    });
+    await this.invalidateMailCache(characterId);
+    return mailId;
+  }
+
+  /**
+   * Replace a mail's labels and/or set its read state
+   */
+  async updateCharacterMail(
+    characterId: number,
+    mailId: number,
+    update: ESI.MailUpdate,
+  ): Promise<void> {
+    await this.send<void>('PUT', `/latest/characters/${characterId}/mail/${mailId}/`, {
+      body: update,
+      characterId,
+    });
+    await this.invalidateMailCache(characterId);
+  }
+
+  async deleteCharacterMail(characterId: number, mailId: number): Promise<void> {
+    await this.send<void>('DELETE', `/latest/characters/${characterId}/mail/${mailId}/`, {
+      characterId,
+    });
+    await this.invalidateMailCache(characterId);
+  }
+
+  /**
+   * Structures are only visible to characters with docking access
+   * and the esi-universe.read_structures.v1 scope
+   */
+  async getStructure(structureId: number, characterId: number): Promise<ESI.Structure> {
+    return this.get<ESI.Structure>(`/latest/universe/structures/${structureId}/`, {
+      characterId,
+    });
+  }
+
   // ===== CACHE MANAGEMENT =====
 
   async invalidateCache(endpoint: string, params?: Record<string, unknown>): Promise<void> {
@@ -247,6 +715,13 @@ export class ESIClient {
   async invalidateCachePattern(pattern: string): Promise<void> {
     await cache.deletePattern(pattern);
   }
+
+  /**
+   * Drop cached mail headers and bodies after a write, so reads reflect the change
+   */
+  private async invalidateMailCache(characterId: number): Promise<void> {
+    await this.invalidateCachePattern(`esi:latest:characters:${characterId}:mail*`);
+  }
 }
 
 // Export singleton instance
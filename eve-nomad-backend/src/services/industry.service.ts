@@ -0,0 +1,344 @@
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+import { notifyCharacterOwner } from './notification.service';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+import { DatabaseError } from '../types/errors';
+import type * as ESI from '../types/esi';
+
+/**
+ * Industry Service
+ * Stores a character's industry jobs and records their status transitions.
+ *
+ * ESI reports a finished job as `active` until it is delivered, so a job whose end date has
+ * passed is stored as `ready`. `markReadyJobs` does the same for stored jobs without calling
+ * ESI, so the ready event (and notification) fires when end_date passes rather than at the
+ * next collection.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'industry' });
+
+export type IndustryJobStatus = ESI.IndustryJob['status'];
+
+const JOB_STATUSES: readonly IndustryJobStatus[] = [
+  'active',
+  'cancelled',
+  'delivered',
+  'paused',
+  'ready',
+  'reverted',
+];
+
+const ACTIVITY_NAMES: Record<number, string> = {
+  1: 'Manufacturing',
+  3: 'Time Efficiency Research',
+  4: 'Material Efficiency Research',
+  5: 'Copying',
+  7: 'Reverse Engineering',
+  8: 'Invention',
+  9: 'Reactions',
+  11: 'Reactions',
+};
+
+interface ReadyJob {
+  characterId: number;
+  jobId: number;
+  activityId: number;
+  blueprintTypeId: number;
+  productTypeId: number | null;
+  runs: number;
+  endDate: Date;
+}
+
+export interface IndustryTrackingResult {
+  jobsSeen: number;
+  eventsCreated: number;
+}
+
+export interface IndustryJobSummary {
+  jobId: number;
+  activityId: number;
+  activity: string;
+  status: IndustryJobStatus;
+  blueprintTypeId: number;
+  blueprintTypeName: string;
+  productTypeId: number | null;
+  productTypeName: string | null;
+  runs: number;
+  successfulRuns: number | null;
+  cost: number | null;
+  locationId: number;
+  locationName: string;
+  startDate: string;
+  endDate: string;
+  completedDate: string | null;
+  secondsRemaining: number; // 0 once the job has finished
+}
+
+/**
+ * Store a character's current and recently completed jobs from ESI,
+ * recording an event for every job whose status changed
+ */
+export async function trackJobs(characterId: number): Promise<IndustryTrackingResult> {
+  const jobs = await esiClient.getCharacterIndustryJobs(characterId, true);
+
+  const stored = await prisma.industryJob.findMany({
+    where: { characterId, jobId: { in: jobs.map((job) => job.job_id) } },
+    select: { jobId: true, status: true },
+  });
+  const statusById = new Map(stored.map((job) => [job.jobId, parseJobStatus(job.status)]));
+
+  const now = new Date();
+  let eventsCreated = 0;
+
+  for (const job of jobs) {
+    const previousStatus = statusById.get(job.job_id) ?? null;
+    const status = effectiveStatus(job, now);
+    const changed = previousStatus !== status;
+
+    await storeJob(characterId, job, status, previousStatus, now);
+
+    if (!changed) {
+      continue;
+    }
+    eventsCreated++;
+
+    // Jobs already finished when first seen (e.g. on the first collection) are not announced
+    if (status === 'ready' && previousStatus) {
+      await notifyReady(toReadyJob(characterId, job));
+    }
+  }
+
+  logger.info('Industry jobs tracked', { characterId, jobs: jobs.length, eventsCreated });
+
+  return { jobsSeen: jobs.length, eventsCreated };
+}
+
+/**
+ * Move stored active jobs whose end date has passed to `ready`. Returns the number of jobs moved.
+ */
+export async function markReadyJobs(now: Date = new Date()): Promise<number> {
+  const due = await prisma.industryJob.findMany({
+    where: { status: 'active', endDate: { lte: now } },
+    select: {
+      characterId: true,
+      jobId: true,
+      activityId: true,
+      blueprintTypeId: true,
+      productTypeId: true,
+      runs: true,
+      endDate: true,
+    },
+  });
+
+  let marked = 0;
+
+  for (const job of due) {
+    // Only the run that actually moves the job records the event
+    const { count } = await prisma.industryJob.updateMany({
+      where: { characterId: job.characterId, jobId: job.jobId, status: 'active' },
+      data: { status: 'ready' },
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    await prisma.industryJobEvent.create({
+      data: {
+        characterId: job.characterId,
+        jobId: job.jobId,
+        fromStatus: 'active',
+        toStatus: 'ready',
+        occurredAt: job.endDate,
+      },
+    });
+
+    marked++;
+    await notifyReady(job);
+  }
+
+  if (marked > 0) {
+    logger.info('Industry jobs ready', { count: marked });
+  }
+
+  return marked;
+}
+
+/**
+ * Get a character's stored industry jobs, newest first
+ * The scheduled industry job refresh keeps them in sync with ESI
+ */
+export async function getIndustryJobs(
+  characterId: number,
+  status?: IndustryJobStatus,
+): Promise<IndustryJobSummary[]> {
+  const jobs = await prisma.industryJob.findMany({
+    where: { characterId, ...(status ? { status } : {}) },
+    orderBy: { endDate: 'desc' },
+  });
+
+  if (jobs.length === 0) {
+    return [];
+  }
+
+  const typeIds = jobs.flatMap((job) =>
+    job.productTypeId ? [job.blueprintTypeId, job.productTypeId] : [job.blueprintTypeId],
+  );
+  const locationIds = jobs.map((job) => Number(job.stationId));
+
+  const [typeNames, locationNames] = await Promise.all([
+    universeService.getTypeNames(typeIds),
+    universeService.getLocationNames(locationIds, characterId),
+  ]);
+
+  const now = Date.now();
+
+  return jobs.map((job) => {
+    const locationId = Number(job.stationId);
+
+    return {
+      jobId: job.jobId,
+      activityId: job.activityId,
+      activity: activityName(job.activityId),
+      status: parseJobStatus(job.status),
+      blueprintTypeId: job.blueprintTypeId,
+      blueprintTypeName:
+        typeNames.get(job.blueprintTypeId) ?? `Unknown Type ${job.blueprintTypeId}`,
+      productTypeId: job.productTypeId,
+      productTypeName: job.productTypeId
+        ? (typeNames.get(job.productTypeId) ?? `Unknown Type ${job.productTypeId}`)
+        : null,
+      runs: job.runs,
+      successfulRuns: job.successfulRuns,
+      cost: job.cost,
+      locationId,
+      locationName: locationNames.get(locationId) ?? `Unknown Location ${locationId}`,
+      startDate: job.startDate.toISOString(),
+      endDate: job.endDate.toISOString(),
+      completedDate: job.completedDate ? job.completedDate.toISOString() : null,
+      secondsRemaining: Math.max(0, Math.ceil((job.endDate.getTime() - now) / 1000)),
+    };
+  });
+}
+
+export function activityName(activityId: number): string {
+  return ACTIVITY_NAMES[activityId] ?? `Activity ${activityId}`;
+}
+
+/**
+ * Statuses are stored as plain strings; anything else means the row is corrupt
+ */
+function parseJobStatus(status: string): IndustryJobStatus {
+  const known = JOB_STATUSES.find((value) => value === status);
+  if (!known) {
+    throw new DatabaseError(`Unknown industry job status "${status}"`, 'read', 'IndustryJob');
+  }
+  return known;
+}
+
+function effectiveStatus(job: ESI.IndustryJob, now: Date): IndustryJobStatus {
+  return job.status === 'active' && new Date(job.end_date).getTime() <= now.getTime()
+    ? 'ready'
+    : job.status;
+}
+
+async function storeJob(
+  characterId: number,
+  job: ESI.IndustryJob,
+  status: IndustryJobStatus,
+  previousStatus: IndustryJobStatus | null,
+  now: Date,
+): Promise<void> {
+  const current = {
+    facilityId: BigInt(job.facility_id),
+    stationId: BigInt(job.station_id),
+    outputLocationId: BigInt(job.output_location_id),
+    endDate: new Date(job.end_date),
+    pauseDate: job.pause_date ? new Date(job.pause_date) : null,
+    completedDate: job.completed_date ? new Date(job.completed_date) : null,
+    completedCharacterId: job.completed_character_id ?? null,
+    successfulRuns: job.successful_runs ?? null,
+    status,
+    lastSeenAt: now,
+  };
+
+  const upsert = prisma.industryJob.upsert({
+    where: { characterId_jobId: { characterId, jobId: job.job_id } },
+    create: {
+      characterId,
+      jobId: job.job_id,
+      installerId: job.installer_id,
+      activityId: job.activity_id,
+      blueprintId: BigInt(job.blueprint_id),
+      blueprintTypeId: job.blueprint_type_id,
+      blueprintLocationId: BigInt(job.blueprint_location_id),
+      productTypeId: job.product_type_id ?? null,
+      runs: job.runs,
+      licensedRuns: job.licensed_runs ?? null,
+      cost: job.cost ?? null,
+      probability: job.probability ?? null,
+      duration: job.duration,
+      startDate: new Date(job.start_date),
+      firstSeenAt: now,
+      ...current,
+    },
+    update: current,
+  });
+
+  if (previousStatus === status) {
+    await upsert;
+    return;
+  }
+
+  await prisma.$transaction([
+    upsert,
+    prisma.industryJobEvent.create({
+      data: {
+        characterId,
+        jobId: job.job_id,
+        fromStatus: previousStatus,
+        toStatus: status,
+        occurredAt: transitionTime(job, status, now),
+      },
+    }),
+  ]);
+}
+
+function transitionTime(job: ESI.IndustryJob, status: IndustryJobStatus, now: Date): Date {
+  if (status === 'ready') {
+    return new Date(job.end_date);
+  }
+  if (status === 'delivered' && job.completed_date) {
+    return new Date(job.completed_date);
+  }
+  if (status === 'paused' && job.pause_date) {
+    return new Date(job.pause_date);
+  }
+  return now;
+}
+
+function toReadyJob(characterId: number, job: ESI.IndustryJob): ReadyJob {
+  return {
+    characterId,
+    jobId: job.job_id,
+    activityId: job.activity_id,
+    blueprintTypeId: job.blueprint_type_id,
+    productTypeId: job.product_type_id ?? null,
+    runs: job.runs,
+    endDate: new Date(job.end_date),
+  };
+}
+
+async function notifyReady(job: ReadyJob): Promise<void> {
+  const typeId = job.productTypeId ?? job.blueprintTypeId;
+  const typeNames = await universeService.getTypeNames([typeId]);
+  const activity = activityName(job.activityId);
+
+  await notifyCharacterOwner(job.characterId, 'industry_job_complete', {
+    title: `${activity} job ready`,
+    body: `${job.runs} x ${typeNames.get(typeId) ?? `Unknown Type ${typeId}`} is ready to deliver`,
+    data: { jobId: job.jobId, activityId: job.activityId, typeId },
+  });
+}
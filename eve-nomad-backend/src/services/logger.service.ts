@@ -6,8 +6,8 @@ import { captureException, addBreadcrumb } from '../config/sentry.config';
  * Production-grade structured logging with Sentry integration
  */
 
-// Sensitive fields to redact from logs
-const REDACT_FIELDS = [
+// Sensitive fields to redact from logs (and from recorded ESI cassettes)
+export const REDACT_FIELDS = [
   'password',
   'accessToken',
   'access_token',
@@ -0,0 +1,580 @@
+import type { Prisma } from '@prisma/client';
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+import { notifyCharacterOwner } from './notification.service';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+import { RecordNotFoundError } from '../types/errors';
+import type * as ESI from '../types/esi';
+
+/**
+ * Mail Service
+ * Sends and organizes EVE mail on behalf of a character, and keeps a local copy of the
+ * mailbox for the inbox, thread view and search.
+ *
+ * Headers are synced incrementally: ESI returns the newest 50 and `last_mail_id` pages back
+ * from there. Once a page reaches stored mail, the sync jumps to the oldest stored mail and
+ * keeps paging back until ESI has no older mail, so an interrupted backfill is resumed.
+ * Bodies are fetched when a mail is first read, plus a few per sync so search covers them.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'mail' });
+
+const MAIL_PER_REQUEST = 50; // ESI's page size for /mail/
+const BODY_BACKFILL_BATCH = 10; // Bodies fetched per sync, newest first
+const MAX_THREAD_MAILS = 100;
+const MAX_SEARCH_RESULTS = 50;
+
+const RECIPIENT_TYPES: readonly ESI.MailRecipient['recipient_type'][] = [
+  'alliance',
+  'character',
+  'corporation',
+  'mailing_list',
+];
+
+export interface MailRecipientInput {
+  recipientId: number;
+  recipientType: ESI.MailRecipient['recipient_type'];
+}
+
+export interface SendMailInput {
+  recipients: MailRecipientInput[];
+  subject: string;
+  body: string;
+  approvedCost?: number;
+}
+
+export interface UpdateMailInput {
+  labels?: number[];
+  read?: boolean;
+}
+
+export interface MailSyncBatch {
+  recordsCollected: number; // Headers returned by ESI
+  recordsStored: number; // New mails stored
+  nextPageToken?: string; // Set when older mail remains to be synced
+}
+
+export interface InboxOptions {
+  labelId?: number;
+  unread?: boolean;
+  beforeMailId?: number;
+  limit?: number;
+}
+
+interface StoredMail {
+  mailId: number;
+  subject: string;
+  fromId: number;
+  timestamp: Date;
+  isRead: boolean;
+  labels: number[];
+  recipients: ESI.MailRecipient[];
+  body: string | null;
+}
+
+export interface MailSummary {
+  mailId: number;
+  subject: string;
+  fromId: number;
+  fromName: string;
+  timestamp: string;
+  isRead: boolean;
+  labels: number[];
+  recipients: Array<{
+    recipientId: number;
+    recipientType: ESI.MailRecipient['recipient_type'];
+    recipientName: string;
+  }>;
+}
+
+export interface Inbox {
+  labels: Array<{ labelId: number; name: string; color: string | null; unreadCount: number }>;
+  mailingLists: Array<{ mailingListId: number; name: string }>;
+  mails: MailSummary[];
+  nextBeforeMailId: number | null; // Pass as `beforeMailId` for the next page
+}
+
+export interface MailThread {
+  subject: string;
+  mails: Array<MailSummary & { body: string | null }>;
+}
+
+/**
+ * Send an EVE mail from a character, returning the new mail ID
+ */
+export async function sendMail(characterId: number, input: SendMailInput): Promise<number> {
+  return esiClient.sendCharacterMail(characterId, {
+    recipients: input.recipients.map((recipient) => ({
+      recipient_id: recipient.recipientId,
+      recipient_type: recipient.recipientType,
+    })),
+    subject: input.subject,
+    body: input.body,
+    approved_cost: input.approvedCost,
+  });
+}
+
+/**
+ * Replace a mail's labels and/or mark it read or unread
+ */
+export async function updateMail(
+  characterId: number,
+  mailId: number,
+  input: UpdateMailInput,
+): Promise<void> {
+  await esiClient.updateCharacterMail(characterId, mailId, {
+    labels: input.labels,
+    read: input.read,
+  });
+
+  await prisma.mail.updateMany({
+    where: { characterId, mailId },
+    data: {
+      ...(input.labels ? { labels: input.labels } : {}),
+      ...(input.read !== undefined ? { isRead: input.read } : {}),
+    },
+  });
+}
+
+export async function deleteMail(characterId: number, mailId: number): Promise<void> {
+  await esiClient.deleteCharacterMail(characterId, mailId);
+  await prisma.mail.deleteMany({ where: { characterId, mailId } });
+}
+
+/**
+ * Sync one page of mail headers. `pageToken` is the ESI `last_mail_id` to page back from;
+ * the first page also refreshes labels and mailing lists, notifies the owner of new mail
+ * and fetches a batch of missing bodies.
+ */
+export async function syncMailPage(
+  characterId: number,
+  pageToken?: string,
+): Promise<MailSyncBatch> {
+  const lastMailId = pageToken ? parseInt(pageToken, 10) : undefined;
+  const isFirstPage = lastMailId === undefined;
+
+  const headers = await esiClient.getCharacterMail(characterId, lastMailId);
+  if (isFirstPage) {
+    await syncLabelsAndLists(characterId);
+  }
+
+  const oldestStored = await prisma.mail.findFirst({
+    where: { characterId },
+    orderBy: { mailId: 'asc' },
+    select: { mailId: true },
+  });
+  // Mail already in the mailbox on the first sync is not announced
+  const hadMail = oldestStored !== null;
+
+  const stored = await prisma.mail.findMany({
+    where: { characterId, mailId: { in: headers.map((header) => header.mail_id) } },
+    select: { mailId: true, isRead: true, labels: true },
+  });
+  const storedById = new Map(stored.map((mail) => [mail.mailId, mail]));
+
+  const newHeaders = headers.filter((header) => !storedById.has(header.mail_id));
+  const recordsStored = await storeHeaders(characterId, newHeaders);
+
+  // Read state and labels change in game; the rest of a header never does
+  for (const header of headers) {
+    const mail = storedById.get(header.mail_id);
+    const labels = header.labels ?? [];
+    if (mail && (mail.isRead !== !!header.is_read || !sameLabels(mail.labels, labels))) {
+      await prisma.mail.update({
+        where: { characterId_mailId: { characterId, mailId: header.mail_id } },
+        data: { isRead: !!header.is_read, labels },
+      });
+    }
+  }
+
+  const oldestId = Math.min(...headers.map((header) => header.mail_id));
+
+  if (isFirstPage && headers.length > 0) {
+    // Mail IDs only grow, so stored mail newer than this page's oldest that ESI no longer
+    // returns was deleted in game
+    await prisma.mail.deleteMany({
+      where: {
+        characterId,
+        mailId: { gte: oldestId, notIn: headers.map((header) => header.mail_id) },
+      },
+    });
+  }
+
+  if (isFirstPage && hadMail) {
+    await notifyNewMail(
+      characterId,
+      newHeaders.filter((header) => !header.is_read && header.from !== characterId),
+    );
+  }
+
+  if (isFirstPage) {
+    await backfillBodies(characterId);
+  }
+
+  // A short page is the end of the mailbox. Otherwise page back, skipping over stored mail
+  // to below the oldest stored one, which is only reached again if a backfill was cut short
+  const resumeFrom =
+    storedById.size > 0 && oldestStored ? Math.min(oldestId, oldestStored.mailId) : oldestId;
+  const nextPageToken =
+    headers.length >= MAIL_PER_REQUEST && resumeFrom !== lastMailId
+      ? String(resumeFrom)
+      : undefined;
+
+  logger.info('Mail synced', {
+    characterId,
+    lastMailId,
+    collected: headers.length,
+    stored: recordsStored,
+  });
+
+  return { recordsCollected: headers.length, recordsStored, nextPageToken };
+}
+
+/**
+ * Get a page of a character's stored mail, newest first, optionally by label or unread only
+ */
+export async function getInbox(characterId: number, options: InboxOptions = {}): Promise<Inbox> {
+  const limit = options.limit ?? MAIL_PER_REQUEST;
+
+  const [labels, mailingLists, rows] = await Promise.all([
+    prisma.mailLabel.findMany({
+      where: { characterId },
+      select: { labelId: true, name: true, color: true, unreadCount: true },
+      orderBy: { labelId: 'asc' },
+    }),
+    prisma.mailingList.findMany({
+      where: { characterId },
+      select: { mailingListId: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.mail.findMany({
+      where: {
+        characterId,
+        ...(options.labelId !== undefined ? { labels: { has: options.labelId } } : {}),
+        ...(options.unread ? { isRead: false } : {}),
+        ...(options.beforeMailId ? { mailId: { lt: options.beforeMailId } } : {}),
+      },
+      orderBy: { mailId: 'desc' },
+      take: limit + 1,
+    }),
+  ]);
+
+  const page = rows.slice(0, limit).map(toStoredMail);
+
+  return {
+    labels,
+    mailingLists,
+    mails: await describeMails(characterId, page),
+    nextBeforeMailId: rows.length > limit ? (page[page.length - 1]?.mailId ?? null) : null,
+  };
+}
+
+/**
+ * Get the thread a mail belongs to (mails with the same subject, ignoring "Re:" and "Fw:"),
+ * its latest mails oldest first, fetching any bodies not stored yet
+ */
+export async function getThread(characterId: number, mailId: number): Promise<MailThread> {
+  const mail = await prisma.mail.findUnique({
+    where: { characterId_mailId: { characterId, mailId } },
+    select: { subject: true, threadSubject: true },
+  });
+
+  if (!mail) {
+    throw new RecordNotFoundError('Mail', mailId);
+  }
+
+  const rows = (
+    await prisma.mail.findMany({
+      where: { characterId, threadSubject: mail.threadSubject },
+      orderBy: { timestamp: 'desc' },
+      take: MAX_THREAD_MAILS,
+    })
+  )
+    .reverse()
+    .map(toStoredMail);
+
+  const bodies = await fetchBodies(
+    characterId,
+    rows.filter((row) => row.body === null).map((row) => row.mailId),
+  );
+  const summaries = await describeMails(characterId, rows);
+
+  return {
+    subject: mail.subject,
+    mails: summaries.map((summary, index) => ({
+      ...summary,
+      body: rows[index]!.body ?? bodies.get(summary.mailId) ?? null,
+    })),
+  };
+}
+
+/**
+ * Full-text search over the subject and body of a character's stored mail, newest first.
+ * Accepts web search syntax ("quoted phrases", -excluded, or). Only bodies already
+ * fetched are searched.
+ */
+export async function searchMail(characterId: number, query: string): Promise<MailSummary[]> {
+  const matches = await prisma.$queryRaw<Array<{ mailId: number }>>`
+    SELECT "mailId"
+    FROM "Mail"
+    WHERE "characterId" = ${characterId}
+      AND to_tsvector(
+            'english',
+            "subject" || ' ' || coalesce(regexp_replace("body", '<[^>]*>', ' ', 'g'), '')
+          ) @@ websearch_to_tsquery('english', ${query})
+    ORDER BY "timestamp" DESC
+    LIMIT ${MAX_SEARCH_RESULTS}
+  `;
+
+  if (matches.length === 0) {
+    return [];
+  }
+
+  const rows = await prisma.mail.findMany({
+    where: { characterId, mailId: { in: matches.map((match) => match.mailId) } },
+    orderBy: { timestamp: 'desc' },
+  });
+
+  return describeMails(characterId, rows.map(toStoredMail));
+}
+
+/**
+ * Store new headers. Returns the number of rows written.
+ */
+async function storeHeaders(characterId: number, headers: ESI.MailHeader[]): Promise<number> {
+  if (headers.length === 0) {
+    return 0;
+  }
+
+  const result = await prisma.mail.createMany({
+    data: headers.map((header) => ({
+      characterId,
+      mailId: header.mail_id,
+      subject: header.subject,
+      threadSubject: threadSubject(header.subject),
+      fromId: header.from,
+      timestamp: new Date(header.timestamp),
+      isRead: !!header.is_read,
+      labels: header.labels ?? [],
+      recipients: serializeRecipients(header.recipients ?? []),
+    })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+/**
+ * Replace a character's labels and mailing lists with the current ones from ESI
+ */
+async function syncLabelsAndLists(characterId: number): Promise<void> {
+  const [labels, lists] = await Promise.all([
+    esiClient.getCharacterMailLabels(characterId),
+    esiClient.getCharacterMailingLists(characterId),
+  ]);
+
+  await prisma.$transaction([
+    prisma.mailLabel.deleteMany({ where: { characterId } }),
+    prisma.mailLabel.createMany({
+      data: labels.labels.map((label) => ({
+        characterId,
+        labelId: label.label_id,
+        name: label.name,
+        color: label.color ?? null,
+        unreadCount: label.unread_count ?? 0,
+      })),
+    }),
+    prisma.mailingList.deleteMany({ where: { characterId } }),
+    prisma.mailingList.createMany({
+      data: lists.map((list) => ({
+        characterId,
+        mailingListId: list.mailing_list_id,
+        name: list.name,
+      })),
+    }),
+  ]);
+}
+
+/**
+ * Fetch and store bodies for the newest mails that do not have one yet
+ */
+async function backfillBodies(characterId: number): Promise<void> {
+  const missing = await prisma.mail.findMany({
+    where: { characterId, body: null },
+    select: { mailId: true },
+    orderBy: { mailId: 'desc' },
+    take: BODY_BACKFILL_BATCH,
+  });
+
+  await fetchBodies(
+    characterId,
+    missing.map((mail) => mail.mailId),
+  );
+}
+
+/**
+ * Fetch bodies from ESI and store them. A mail that fails (e.g. deleted in game since the
+ * last sync) is logged and left without a body.
+ */
+async function fetchBodies(characterId: number, mailIds: number[]): Promise<Map<number, string>> {
+  const results = await Promise.allSettled(
+    mailIds.map((mailId) => esiClient.getCharacterMailBody(characterId, mailId)),
+  );
+
+  const bodies = new Map<number, string>();
+  const fetchedAt = new Date();
+
+  for (const [index, result] of results.entries()) {
+    const mailId = mailIds[index]!;
+
+    if (result.status === 'rejected') {
+      logger.warn('Failed to fetch mail body', {
+        characterId,
+        mailId,
+        reason: String(result.reason),
+      });
+      continue;
+    }
+
+    const body = result.value.body ?? '';
+    bodies.set(mailId, body);
+    await prisma.mail.update({
+      where: { characterId_mailId: { characterId, mailId } },
+      data: { body, bodyFetchedAt: fetchedAt },
+    });
+  }
+
+  return bodies;
+}
+
+/**
+ * Resolve sender and recipient names. Mailing lists are named from the character's
+ * subscriptions, since the name resolver cannot see them.
+ */
+async function describeMails(characterId: number, rows: StoredMail[]): Promise<MailSummary[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const lists = await prisma.mailingList.findMany({
+    where: { characterId },
+    select: { mailingListId: true, name: true },
+  });
+  const listNames = new Map(lists.map((list) => [list.mailingListId, list.name]));
+
+  const entityIds = rows.flatMap((row) => [
+    row.fromId,
+    ...row.recipients
+      .filter((recipient) => recipient.recipient_type !== 'mailing_list')
+      .map((recipient) => recipient.recipient_id),
+  ]);
+  const names = await universeService.getEntityNames(entityIds);
+
+  return rows.map((row) => ({
+    mailId: row.mailId,
+    subject: row.subject,
+    fromId: row.fromId,
+    fromName: names.get(row.fromId) ?? `Unknown ${row.fromId}`,
+    timestamp: row.timestamp.toISOString(),
+    isRead: row.isRead,
+    labels: row.labels,
+    recipients: row.recipients.map((recipient) => ({
+      recipientId: recipient.recipient_id,
+      recipientType: recipient.recipient_type,
+      recipientName:
+        (recipient.recipient_type === 'mailing_list'
+          ? listNames.get(recipient.recipient_id)
+          : names.get(recipient.recipient_id)) ?? `Unknown ${recipient.recipient_id}`,
+    })),
+  }));
+}
+
+async function notifyNewMail(characterId: number, headers: ESI.MailHeader[]): Promise<void> {
+  const [latest] = headers;
+  if (!latest) {
+    return;
+  }
+
+  if (headers.length > 1) {
+    await notifyCharacterOwner(characterId, 'eve_mail_received', {
+      title: `${headers.length} new EVE mails`,
+      body: headers
+        .slice(0, 3)
+        .map((header) => header.subject)
+        .join(', ')
+        .concat(headers.length > 3 ? ', …' : ''),
+      data: { mailIds: headers.map((header) => header.mail_id) },
+    });
+    return;
+  }
+
+  const senderNames = await universeService.getEntityNames([latest.from]);
+
+  await notifyCharacterOwner(characterId, 'eve_mail_received', {
+    title: `New mail from ${senderNames.get(latest.from) ?? `Unknown ${latest.from}`}`,
+    body: latest.subject,
+    data: { mailIds: [latest.mail_id] },
+  });
+}
+
+function threadSubject(subject: string): string {
+  return subject
+    .replace(/^\s*((re|fw|fwd)\s*:\s*)+/i, '')
+    .trim()
+    .toLowerCase();
+}
+
+function sameLabels(a: number[], b: number[]): boolean {
+  return a.length === b.length && [...a].sort().join() === [...b].sort().join();
+}
+
+function toStoredMail(row: {
+  mailId: number;
+  subject: string;
+  fromId: number;
+  timestamp: Date;
+  isRead: boolean;
+  labels: number[];
+  recipients: Prisma.JsonValue;
+  body: string | null;
+}): StoredMail {
+  return {
+    mailId: row.mailId,
+    subject: row.subject,
+    fromId: row.fromId,
+    timestamp: row.timestamp,
+    isRead: row.isRead,
+    labels: row.labels,
+    recipients: parseRecipients(row.recipients),
+    body: row.body,
+  };
+}
+
+function serializeRecipients(recipients: ESI.MailRecipient[]): Prisma.InputJsonArray {
+  return recipients.map((recipient) => ({
+    recipient_id: recipient.recipient_id,
+    recipient_type: recipient.recipient_type,
+  }));
+}
+
+/**
+ * Read the `recipients` JSON column, dropping entries that are not an ESI mail recipient
+ */
+function parseRecipients(value: Prisma.JsonValue): ESI.MailRecipient[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((item): ESI.MailRecipient[] => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return [];
+    }
+    const recipientId = item['recipient_id'];
+    const recipientType = RECIPIENT_TYPES.find((type) => type === item['recipient_type']);
+    return typeof recipientId === 'number' && recipientType
+      ? [{ recipient_id: recipientId, recipient_type: recipientType }]
+      : [];
+  });
+}
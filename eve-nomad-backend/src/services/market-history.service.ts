@@ -0,0 +1,355 @@
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+import { getPrisma } from '../utils/prisma';
+import { DAY_MS } from '../utils/date.util';
+import { createLogger } from './logger.service';
+import { DatabaseError, RecordNotFoundError } from '../types/errors';
+import type * as ESI from '../types/esi';
+
+/**
+ * Market History Service
+ * Tracks the lifecycle of a character's market orders.
+ *
+ * ESI only lists open orders, plus closed ones in /orders/history/, so each collection compares
+ * what ESI reports against the last stored state of every order. Any change is stored as a
+ * snapshot and turned into lifecycle events: created, partially filled, modified, filled,
+ * expired or cancelled. Fills are only seen at collection time, so their timestamps are as
+ * precise as the collection schedule.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'market-history' });
+
+const ORDER_STATES = ['open', 'filled', 'expired', 'cancelled'] as const;
+
+const ORDER_EVENT_TYPES = [
+  'created',
+  'partially_filled',
+  'modified',
+  'filled',
+  'expired',
+  'cancelled',
+] as const;
+
+export type OrderState = (typeof ORDER_STATES)[number];
+
+export type OrderEventType = (typeof ORDER_EVENT_TYPES)[number];
+
+interface StoredOrder {
+  orderId: bigint;
+  state: OrderState;
+  price: number;
+  volumeRemain: number;
+  issued: Date;
+}
+
+interface OrderEvent {
+  type: OrderEventType;
+  occurredAt: Date;
+  price?: number;
+  previousPrice?: number;
+  volumeChange?: number;
+  volumeRemain?: number;
+}
+
+export interface OrderTrackingResult {
+  ordersSeen: number;
+  snapshotsStored: number;
+  eventsCreated: number;
+}
+
+export interface OrderTimelineEvent {
+  type: OrderEventType;
+  occurredAt: string;
+  price: number | null;
+  previousPrice: number | null;
+  volumeChange: number | null;
+  volumeRemain: number | null;
+}
+
+export interface OrderTimeline {
+  orderId: number;
+  typeId: number;
+  typeName: string;
+  locationId: number;
+  locationName: string;
+  isBuyOrder: boolean;
+  volumeTotal: number;
+  volumeRemain: number;
+  price: number;
+  state: OrderState;
+  issued: string;
+  firstSeenAt: string;
+  closedAt: string | null;
+  events: OrderTimelineEvent[];
+}
+
+/**
+ * Compare a character's open and closed orders on ESI with the stored state,
+ * storing a snapshot and lifecycle events for every order that changed
+ */
+export async function trackOrders(characterId: number): Promise<OrderTrackingResult> {
+  const [openOrders, closedOrders] = await Promise.all([
+    esiClient.getCharacterOrders(characterId),
+    esiClient.getCharacterOrderHistory(characterId),
+  ]);
+
+  // An order can briefly show up in both lists; the closed listing is the newer state
+  const observed = new Map<number, { order: ESI.MarketOrder; state: OrderState }>();
+  openOrders.forEach((order) => observed.set(order.order_id, { order, state: 'open' }));
+  closedOrders.forEach((order) =>
+    observed.set(order.order_id, { order, state: closedState(order) }),
+  );
+
+  const stored = await prisma.marketOrder.findMany({
+    where: { characterId, orderId: { in: [...observed.keys()].map((id) => BigInt(id)) } },
+    select: { orderId: true, state: true, price: true, volumeRemain: true, issued: true },
+  });
+  const storedById = new Map(
+    stored.map((order): [number, StoredOrder] => [
+      Number(order.orderId),
+      { ...order, state: parseOrderState(order.state) },
+    ]),
+  );
+
+  const now = new Date();
+  let snapshotsStored = 0;
+  let eventsCreated = 0;
+
+  for (const { order, state } of observed.values()) {
+    const previous = storedById.get(order.order_id) ?? null;
+
+    if (previous && !hasChanged(previous, order, state)) {
+      continue;
+    }
+
+    const events = deriveEvents(previous, order, state, now);
+    await storeChange(characterId, order, state, events, now);
+
+    snapshotsStored++;
+    eventsCreated += events.length;
+  }
+
+  logger.info('Market orders tracked', {
+    characterId,
+    open: openOrders.length,
+    closed: closedOrders.length,
+    snapshotsStored,
+    eventsCreated,
+  });
+
+  return { ordersSeen: observed.size, snapshotsStored, eventsCreated };
+}
+
+/**
+ * Get an order's lifecycle events, oldest first
+ */
+export async function getOrderTimeline(
+  characterId: number,
+  orderId: number,
+): Promise<OrderTimeline> {
+  const order = await prisma.marketOrder.findUnique({
+    where: { characterId_orderId: { characterId, orderId: BigInt(orderId) } },
+  });
+
+  if (!order) {
+    throw new RecordNotFoundError('MarketOrder', orderId);
+  }
+
+  const events = await prisma.marketOrderEvent.findMany({
+    where: { characterId, orderId: BigInt(orderId) },
+    orderBy: [{ occurredAt: 'asc' }, { createdAt: 'asc' }],
+    select: {
+      type: true,
+      occurredAt: true,
+      price: true,
+      previousPrice: true,
+      volumeChange: true,
+      volumeRemain: true,
+    },
+  });
+
+  const locationId = Number(order.locationId);
+  const [typeNames, locationNames] = await Promise.all([
+    universeService.getTypeNames([order.typeId]),
+    universeService.getLocationNames([locationId], characterId),
+  ]);
+
+  return {
+    orderId,
+    typeId: order.typeId,
+    typeName: typeNames.get(order.typeId) ?? `Unknown Type ${order.typeId}`,
+    locationId,
+    locationName: locationNames.get(locationId) ?? `Unknown Location ${locationId}`,
+    isBuyOrder: order.isBuyOrder,
+    volumeTotal: order.volumeTotal,
+    volumeRemain: order.volumeRemain,
+    price: order.price,
+    state: parseOrderState(order.state),
+    issued: order.issued.toISOString(),
+    firstSeenAt: order.firstSeenAt.toISOString(),
+    closedAt: order.closedAt ? order.closedAt.toISOString() : null,
+    events: events.map((event) => ({
+      ...event,
+      type: parseEventType(event.type),
+      occurredAt: event.occurredAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * States and event types are stored as plain strings; anything else means the row is corrupt
+ */
+function parseOrderState(state: string): OrderState {
+  const known = ORDER_STATES.find((value) => value === state);
+  if (!known) {
+    throw new DatabaseError(`Unknown market order state "${state}"`, 'read', 'MarketOrder');
+  }
+  return known;
+}
+
+function parseEventType(type: string): OrderEventType {
+  const known = ORDER_EVENT_TYPES.find((value) => value === type);
+  if (!known) {
+    throw new DatabaseError(`Unknown market order event "${type}"`, 'read', 'MarketOrderEvent');
+  }
+  return known;
+}
+
+/**
+ * ESI reports fully filled orders as expired with nothing left to trade
+ */
+function closedState(order: ESI.MarketOrderHistoryEntry): OrderState {
+  if (order.state === 'cancelled') {
+    return 'cancelled';
+  }
+  return order.volume_remain === 0 ? 'filled' : 'expired';
+}
+
+function hasChanged(previous: StoredOrder, order: ESI.MarketOrder, state: OrderState): boolean {
+  return (
+    previous.state !== state ||
+    previous.price !== order.price ||
+    previous.volumeRemain !== order.volume_remain ||
+    previous.issued.getTime() !== new Date(order.issued).getTime()
+  );
+}
+
+/**
+ * Work out what happened to an order between its last stored state and now
+ */
+function deriveEvents(
+  previous: StoredOrder | null,
+  order: ESI.MarketOrder,
+  state: OrderState,
+  now: Date,
+): OrderEvent[] {
+  const events: OrderEvent[] = [];
+  const issued = new Date(order.issued);
+
+  if (!previous) {
+    events.push({
+      type: 'created',
+      occurredAt: issued,
+      price: order.price,
+      volumeRemain: order.volume_total,
+    });
+  }
+
+  // Modifying an order changes its price and resets `issued`
+  if (
+    previous &&
+    (previous.price !== order.price || previous.issued.getTime() !== issued.getTime())
+  ) {
+    events.push({
+      type: 'modified',
+      occurredAt: issued,
+      price: order.price,
+      previousPrice: previous.price,
+    });
+  }
+
+  const traded = (previous?.volumeRemain ?? order.volume_total) - order.volume_remain;
+
+  if (traded > 0 && state !== 'filled') {
+    events.push({
+      type: 'partially_filled',
+      occurredAt: now,
+      price: order.price,
+      volumeChange: traded,
+      volumeRemain: order.volume_remain,
+    });
+  }
+
+  if (state !== 'open' && previous?.state !== state) {
+    events.push({
+      type: state,
+      occurredAt: state === 'expired' ? expiryOf(order) : now,
+      price: order.price,
+      volumeChange: state === 'filled' && traded > 0 ? traded : undefined,
+      volumeRemain: order.volume_remain,
+    });
+  }
+
+  return events;
+}
+
+async function storeChange(
+  characterId: number,
+  order: ESI.MarketOrder,
+  state: OrderState,
+  events: OrderEvent[],
+  now: Date,
+): Promise<void> {
+  const orderId = BigInt(order.order_id);
+  const current = {
+    volumeRemain: order.volume_remain,
+    price: order.price,
+    escrow: order.escrow ?? null,
+    issued: new Date(order.issued),
+    state,
+    lastSeenAt: now,
+    closedAt: state === 'open' ? null : state === 'expired' ? expiryOf(order) : now,
+  };
+
+  await prisma.$transaction([
+    prisma.marketOrder.upsert({
+      where: { characterId_orderId: { characterId, orderId } },
+      create: {
+        characterId,
+        orderId,
+        typeId: order.type_id,
+        locationId: BigInt(order.location_id),
+        regionId: order.region_id,
+        isBuyOrder: order.is_buy_order ?? false,
+        isCorporation: order.is_corporation,
+        volumeTotal: order.volume_total,
+        minVolume: order.min_volume ?? null,
+        range: order.range,
+        duration: order.duration,
+        firstSeenAt: now,
+        ...current,
+      },
+      update: current,
+    }),
+    prisma.marketOrderSnapshot.create({
+      data: {
+        characterId,
+        orderId,
+        state,
+        price: order.price,
+        volumeRemain: order.volume_remain,
+        escrow: order.escrow ?? null,
+        issued: new Date(order.issued),
+        recordedAt: now,
+      },
+    }),
+    prisma.marketOrderEvent.createMany({
+      data: events.map((event) => ({ characterId, orderId, ...event })),
+    }),
+  ]);
+}
+
+function expiryOf(order: ESI.MarketOrder): Date {
+  return new Date(new Date(order.issued).getTime() + order.duration * DAY_MS);
+}
@@ -0,0 +1,89 @@
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+import { DAY_MS } from '../utils/date.util';
+
+/**
+ * Market Service
+ * Maps ESI market data into the shape consumed by the mobile and web clients
+ */
+
+export interface MarketOrderEntry {
+  orderId: number;
+  typeId: number;
+  typeName: string;
+  locationId: number;
+  locationName: string;
+  volumeTotal: number;
+  volumeRemain: number;
+  minVolume: number;
+  price: number;
+  isBuyOrder: boolean;
+  duration: number;
+  issued: string;
+  range: string;
+  escrow: number;
+  expiresAt: string;
+  daysUntilExpiry: number;
+}
+
+export interface MarketOrdersSummary {
+  orders: MarketOrderEntry[];
+  totalEscrow: number;
+}
+
+/**
+ * Get a character's open market orders with resolved type and location names
+ */
+export async function getMarketOrders(characterId: number): Promise<MarketOrdersSummary> {
+  const orders = await esiClient.getCharacterOrders(characterId);
+
+  const [typeNames, locationNames] = await Promise.all([
+    universeService.getTypeNames(orders.map((order) => order.type_id)),
+    universeService.getLocationNames(
+      orders.map((order) => order.location_id),
+      characterId,
+    ),
+  ]);
+
+  const now = Date.now();
+
+  const entries = orders.map((order): MarketOrderEntry => {
+    const expiresAt = new Date(new Date(order.issued).getTime() + order.duration * DAY_MS);
+
+    return {
+      orderId: order.order_id,
+      typeId: order.type_id,
+      typeName: typeNames.get(order.type_id) ?? `Unknown Type ${order.type_id}`,
+      locationId: order.location_id,
+      locationName: locationNames.get(order.location_id) ?? `Unknown Location ${order.location_id}`,
+      volumeTotal: order.volume_total,
+      volumeRemain: order.volume_remain,
+      minVolume: order.min_volume ?? 1,
+      price: order.price,
+      isBuyOrder: order.is_buy_order ?? false,
+      duration: order.duration,
+      issued: order.issued,
+      range: order.range,
+      escrow: order.escrow ?? 0,
+      expiresAt: expiresAt.toISOString(),
+      daysUntilExpiry: Math.max(Math.ceil((expiresAt.getTime() - now) / DAY_MS), 0),
+    };
+  });
+
+  return {
+    orders: entries,
+    totalEscrow: entries.reduce((total, order) => total + order.escrow, 0),
+  };
+}
+
+/**
+ * Estimated unit value of every type: CCP's average price, or the adjusted price
+ * for types without one. Types missing from /markets/prices/ have no value.
+ */
+export async function getItemPrices(): Promise<Map<number, number>> {
+  const prices = await esiClient.getMarketPrices();
+
+  return new Map(
+    prices.map((price) => [price.type_id, price.average_price ?? price.adjusted_price ?? 0]),
+  );
+}
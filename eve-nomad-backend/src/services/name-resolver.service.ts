@@ -0,0 +1,176 @@
+import { esiClient } from './esi-client';
+import * as redis from './redis.service';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+import { ESINotFoundError } from '../types/errors';
+import type * as ESI from '../types/esi';
+
+/**
+ * Name Resolver Service
+ * Bulk-resolves EVE IDs to names through ESI's /universe/names/ endpoint.
+ *
+ * Lookup order: Redis -> PostgreSQL (UniverseName) -> ESI.
+ * Names rarely change, so resolved names are stored permanently in PostgreSQL
+ * rather than in the expiring CachedData table.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'name-resolver' });
+
+const ESI_BATCH_SIZE = 1000; // Max IDs per /universe/names/ request
+const MAX_RESOLVABLE_ID = 2_147_483_647; // /universe/names/ only accepts int32 IDs
+const REDIS_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+export type NameCategory = ESI.UniverseName['category'];
+
+const NAME_CATEGORIES: readonly string[] = [
+  'alliance',
+  'character',
+  'constellation',
+  'corporation',
+  'inventory_type',
+  'region',
+  'solar_system',
+  'station',
+  'faction',
+] satisfies NameCategory[];
+
+export interface ResolvedName {
+  id: number;
+  name: string;
+  category: NameCategory;
+}
+
+function redisKey(id: number): string {
+  return `names:${id}`;
+}
+
+function isNameCategory(category: string): category is NameCategory {
+  return NAME_CATEGORIES.includes(category);
+}
+
+/**
+ * Resolve a list of IDs to names
+ * IDs that cannot be resolved (invalid, or structures) are omitted from the result
+ */
+export async function resolveNames(ids: number[]): Promise<Map<number, ResolvedName>> {
+  const resolved = new Map<number, ResolvedName>();
+  let pending = [...new Set(ids)].filter(
+    (id) => Number.isInteger(id) && id > 0 && id <= MAX_RESOLVABLE_ID,
+  );
+
+  if (pending.length === 0) {
+    return resolved;
+  }
+
+  // L1: Redis
+  if (redis.isConnected()) {
+    const cached = await redis.mget(pending.map(redisKey));
+    cached.forEach((value) => {
+      if (value) {
+        const name = JSON.parse(value) as ResolvedName;
+        resolved.set(name.id, name);
+      }
+    });
+    pending = pending.filter((id) => !resolved.has(id));
+  }
+
+  if (pending.length === 0) {
+    return resolved;
+  }
+
+  // L2: PostgreSQL
+  // Rows with an unrecognised category are treated as unresolved and fetched again
+  const rows = await prisma.universeName.findMany({
+    where: { id: { in: pending } },
+    select: { id: true, name: true, category: true },
+  });
+  const stored = rows.flatMap(({ id, name, category }): ResolvedName[] =>
+    isNameCategory(category) ? [{ id, name, category }] : [],
+  );
+
+  stored.forEach((name) => resolved.set(name.id, name));
+  await cacheInRedis(stored);
+  pending = pending.filter((id) => !resolved.has(id));
+
+  if (pending.length === 0) {
+    return resolved;
+  }
+
+  // ESI
+  const fetched: ResolvedName[] = [];
+  for (let i = 0; i < pending.length; i += ESI_BATCH_SIZE) {
+    fetched.push(...(await fetchFromESI(pending.slice(i, i + ESI_BATCH_SIZE))));
+  }
+
+  fetched.forEach((name) => resolved.set(name.id, name));
+  await storeNames(fetched);
+
+  logger.info('Resolved names', {
+    requested: ids.length,
+    fromESI: fetched.length,
+    unresolved: pending.length - fetched.length,
+  });
+
+  return resolved;
+}
+
+/**
+ * Fetch names from ESI. A single invalid ID fails the whole batch,
+ * so failed batches are split in half until the bad IDs are isolated.
+ */
+async function fetchFromESI(ids: number[]): Promise<ResolvedName[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  try {
+    return await esiClient.resolveUniverseNames(ids);
+  } catch (error) {
+    if (!(error instanceof ESINotFoundError)) {
+      throw error;
+    }
+  }
+
+  if (ids.length === 1) {
+    logger.warn('ID could not be resolved by ESI', { id: ids[0] });
+    return [];
+  }
+
+  const middle = Math.ceil(ids.length / 2);
+  const left = await fetchFromESI(ids.slice(0, middle));
+  const right = await fetchFromESI(ids.slice(middle));
+
+  return [...left, ...right];
+}
+
+async function storeNames(names: ResolvedName[]): Promise<void> {
+  if (names.length === 0) {
+    return;
+  }
+
+  try {
+    await prisma.universeName.createMany({
+      data: names.map(({ id, name, category }) => ({ id, name, category })),
+      skipDuplicates: true,
+    });
+  } catch (error) {
+    logger.error('Failed to store resolved names', error as Error, { count: names.length });
+  }
+
+  await cacheInRedis(names);
+}
+
+async function cacheInRedis(names: ResolvedName[]): Promise<void> {
+  if (names.length === 0 || !redis.isConnected()) {
+    return;
+  }
+
+  await Promise.all(
+    names.map((name) =>
+      redis.set(redisKey(name.id), JSON.stringify(name), REDIS_TTL_SECONDS).catch(() => {
+        /* Ignore Redis errors */
+      }),
+    ),
+  );
+}
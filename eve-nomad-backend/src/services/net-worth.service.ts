@@ -0,0 +1,215 @@
+import { esiClient } from './esi-client';
+import * as marketService from './market.service';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+import { MissingScopeError, ReauthRequiredError } from '../types/errors';
+import { DAY_MS, startOfUtcDay, toDateString } from '../utils/date.util';
+import type * as ESI from '../types/esi';
+
+/**
+ * Net Worth Service
+ * Estimates what a character is worth in ISK and keeps a daily history of it.
+ *
+ * Net worth is the wallet balance, plus assets at CCP's average (or adjusted) price, plus the
+ * value of items listed in sell orders, plus ISK held in buy-order escrow. Items in sell
+ * orders are valued at the order price, since they are no longer in the asset list.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'net-worth' });
+
+const DEFAULT_HISTORY_DAYS = 30;
+
+export interface NetWorthBreakdown {
+  walletBalance: number;
+  assetsValue: number;
+  sellOrdersValue: number;
+  buyOrderEscrow: number;
+  total: number;
+}
+
+export interface NetWorthHistoryPoint extends NetWorthBreakdown {
+  date: string;
+}
+
+export interface CharacterNetWorth {
+  current: NetWorthBreakdown;
+  history: NetWorthHistoryPoint[];
+}
+
+export interface AccountNetWorth extends CharacterNetWorth {
+  characters: Array<NetWorthBreakdown & { characterId: number; characterName: string }>;
+  // Characters left out of `current` because they need to re-authorize or grant scopes
+  unavailableCharacterIds: number[];
+}
+
+/**
+ * Calculate a character's current net worth from ESI
+ */
+export async function calculateNetWorth(characterId: number): Promise<NetWorthBreakdown> {
+  const [walletBalance, assets, orders, prices] = await Promise.all([
+    esiClient.getCharacterWallet(characterId),
+    esiClient.getCharacterAssets(characterId),
+    esiClient.getCharacterOrders(characterId),
+    marketService.getItemPrices(),
+  ]);
+
+  const sellOrders = orders.filter((order) => !order.is_buy_order);
+  const buyOrders = orders.filter((order) => order.is_buy_order);
+
+  const breakdown = {
+    walletBalance,
+    assetsValue: getAssetsValue(assets, prices),
+    sellOrdersValue: sellOrders.reduce(
+      (total, order) => total + order.price * order.volume_remain,
+      0,
+    ),
+    buyOrderEscrow: buyOrders.reduce((total, order) => total + (order.escrow ?? 0), 0),
+  };
+
+  return { ...breakdown, total: sumBreakdown(breakdown) };
+}
+
+/**
+ * Store today's (UTC) net worth snapshot for a character, replacing one taken earlier today
+ */
+export async function takeSnapshot(characterId: number): Promise<NetWorthBreakdown> {
+  const breakdown = await calculateNetWorth(characterId);
+  const date = startOfUtcDay(new Date());
+  const snapshot = { ...breakdown, recordedAt: new Date() };
+
+  await prisma.netWorthSnapshot.upsert({
+    where: { characterId_date: { characterId, date } },
+    create: { characterId, date, ...snapshot },
+    update: snapshot,
+  });
+
+  logger.info('Net worth snapshot stored', { characterId, total: breakdown.total });
+
+  return breakdown;
+}
+
+/**
+ * Get a character's current net worth and its daily history
+ */
+export async function getCharacterNetWorth(
+  characterId: number,
+  days: number = DEFAULT_HISTORY_DAYS,
+): Promise<CharacterNetWorth> {
+  const [current, history] = await Promise.all([
+    calculateNetWorth(characterId),
+    getHistory([characterId], days),
+  ]);
+
+  return { current, history };
+}
+
+/**
+ * Get the combined net worth of all of a user's characters and its daily history
+ */
+export async function getAccountNetWorth(
+  userId: string,
+  days: number = DEFAULT_HISTORY_DAYS,
+): Promise<AccountNetWorth> {
+  const characters = await prisma.character.findMany({
+    where: { userId },
+    select: { characterId: true, characterName: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const breakdowns: AccountNetWorth['characters'] = [];
+  const unavailableCharacterIds: number[] = [];
+
+  // One character without the needed scopes should not hide the rest of the account
+  for (const character of characters) {
+    try {
+      breakdowns.push({ ...character, ...(await calculateNetWorth(character.characterId)) });
+    } catch (error) {
+      if (!(error instanceof MissingScopeError) && !(error instanceof ReauthRequiredError)) {
+        throw error;
+      }
+      unavailableCharacterIds.push(character.characterId);
+    }
+  }
+
+  const current = {
+    walletBalance: sumField(breakdowns, 'walletBalance'),
+    assetsValue: sumField(breakdowns, 'assetsValue'),
+    sellOrdersValue: sumField(breakdowns, 'sellOrdersValue'),
+    buyOrderEscrow: sumField(breakdowns, 'buyOrderEscrow'),
+    total: sumField(breakdowns, 'total'),
+  };
+
+  return {
+    current,
+    history: await getHistory(
+      characters.map((character) => character.characterId),
+      days,
+    ),
+    characters: breakdowns,
+    unavailableCharacterIds,
+  };
+}
+
+/**
+ * Daily totals for a set of characters, oldest first. Days are summed across characters,
+ * so an account's history only counts characters that had a snapshot that day.
+ */
+async function getHistory(characterIds: number[], days: number): Promise<NetWorthHistoryPoint[]> {
+  const since = new Date(startOfUtcDay(new Date()).getTime() - days * DAY_MS);
+
+  const snapshots = await prisma.netWorthSnapshot.findMany({
+    where: { characterId: { in: characterIds }, date: { gte: since } },
+    orderBy: { date: 'asc' },
+  });
+
+  const byDate = new Map<string, NetWorthHistoryPoint>();
+
+  for (const snapshot of snapshots) {
+    const date = toDateString(snapshot.date);
+    const point = byDate.get(date) ?? {
+      date,
+      walletBalance: 0,
+      assetsValue: 0,
+      sellOrdersValue: 0,
+      buyOrderEscrow: 0,
+      total: 0,
+    };
+
+    point.walletBalance += snapshot.walletBalance;
+    point.assetsValue += snapshot.assetsValue;
+    point.sellOrdersValue += snapshot.sellOrdersValue;
+    point.buyOrderEscrow += snapshot.buyOrderEscrow;
+    point.total += snapshot.total;
+    byDate.set(date, point);
+  }
+
+  return [...byDate.values()];
+}
+
+/**
+ * Blueprint copies have no meaningful market price, so they are not counted.
+ * Singletons can report a negative quantity, so they count as one item.
+ */
+function getAssetsValue(assets: ESI.Asset[], prices: Map<number, number>): number {
+  return assets
+    .filter((asset) => !asset.is_blueprint_copy)
+    .reduce(
+      (total, asset) =>
+        total + (asset.is_singleton ? 1 : asset.quantity) * (prices.get(asset.type_id) ?? 0),
+      0,
+    );
+}
+
+function sumBreakdown(breakdown: Omit<NetWorthBreakdown, 'total'>): number {
+  return (
+    breakdown.walletBalance +
+    breakdown.assetsValue +
+    breakdown.sellOrdersValue +
+    breakdown.buyOrderEscrow
+  );
+}
+
+function sumField(breakdowns: NetWorthBreakdown[], field: keyof NetWorthBreakdown): number {
+  return breakdowns.reduce((total, breakdown) => total + breakdown[field], 0);
+}
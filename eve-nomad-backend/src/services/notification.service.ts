@@ -0,0 +1,92 @@
+import type { Prisma } from '@prisma/client';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+
+/**
+ * Notification Service
+ * Records notifications for a character's owner in NotificationLog, honouring their
+ * UserSettings. Entries are created as `pending` for the push sender to deliver.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'notification' });
+
+export type NotificationType =
+  | 'skill_complete'
+  | 'market_order_filled'
+  | 'industry_job_complete'
+  | 'pi_extractor_expired'
+  | 'pi_storage_full'
+  | 'eve_mail_received';
+
+type NotificationSetting =
+  | 'notifySkillComplete'
+  | 'notifyMarketOrders'
+  | 'notifyIndustryJobs'
+  | 'notifyPIExtractors'
+  | 'notifyEveMail';
+
+const SETTING_BY_TYPE: Record<NotificationType, NotificationSetting> = {
+  skill_complete: 'notifySkillComplete',
+  market_order_filled: 'notifyMarketOrders',
+  industry_job_complete: 'notifyIndustryJobs',
+  pi_extractor_expired: 'notifyPIExtractors',
+  pi_storage_full: 'notifyPIExtractors',
+  eve_mail_received: 'notifyEveMail',
+};
+
+// Used when the user has no UserSettings row yet; matches the schema defaults
+const DEFAULT_SETTINGS: Record<NotificationSetting, boolean> = {
+  notifySkillComplete: true,
+  notifyMarketOrders: true,
+  notifyIndustryJobs: true,
+  notifyPIExtractors: false,
+  notifyEveMail: true,
+};
+
+export interface NotificationInput {
+  title: string;
+  body: string;
+  data?: Prisma.InputJsonObject;
+}
+
+/**
+ * Notify the user who owns a character. Returns false when the character is unknown
+ * or the user has turned this type of notification off.
+ */
+export async function notifyCharacterOwner(
+  characterId: number,
+  type: NotificationType,
+  notification: NotificationInput,
+): Promise<boolean> {
+  const setting = SETTING_BY_TYPE[type];
+
+  const character = await prisma.character.findUnique({
+    where: { characterId },
+    select: { userId: true, user: { select: { settings: true } } },
+  });
+
+  if (!character) {
+    logger.warn('Notification skipped for unknown character', { characterId, type });
+    return false;
+  }
+
+  if (!(character.user.settings?.[setting] ?? DEFAULT_SETTINGS[setting])) {
+    logger.debug('Notification disabled by user settings', { characterId, type });
+    return false;
+  }
+
+  await prisma.notificationLog.create({
+    data: {
+      userId: character.userId,
+      characterId,
+      type,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data,
+    },
+  });
+
+  logger.info('Notification queued', { characterId, type });
+  return true;
+}
@@ -0,0 +1,543 @@
+import type { Prisma } from '@prisma/client';
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+import { notifyCharacterOwner } from './notification.service';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+import type * as ESI from '../types/esi';
+
+/**
+ * Planetary Service
+ * Stores the status of a character's planetary colonies: when each extractor program
+ * expires, how full storage is and how many factories are idle.
+ *
+ * ESI only updates a colony's layout when the character views it in game, so storage and
+ * factory state are as of the colony's `last_update`. Extractor expiry times are known in
+ * advance, so `notifyExpiredExtractors` fires when they pass rather than at the next refresh.
+ * Refreshing never notifies; both alerts are sent by the scheduled PI check.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'planetary' });
+
+// Treated as full: a storage pin rarely fits another full extractor cycle past this point
+const STORAGE_FULL_RATIO = 0.95;
+
+// Advanced factories cycle hourly (basic ones every 30 minutes); a factory whose last cycle
+// started longer ago than this when the colony was updated was waiting for input
+const MAX_FACTORY_CYCLE_MS = 60 * 60 * 1000;
+
+export interface ExtractorStatus {
+  pinId: number;
+  typeId: number;
+  productTypeId: number | null;
+  qtyPerCycle: number | null;
+  cycleTime: number | null; // Seconds
+  installTime: string | null;
+  expiryTime: string | null; // Null when no extraction program is running
+}
+
+export interface StorageStatus {
+  pinId: number;
+  typeId: number;
+  capacity: number; // m³
+  used: number; // m³
+  fill: number; // 0-1
+}
+
+interface StoredColony {
+  characterId: number;
+  planetId: number;
+  solarSystemId: number;
+  planetType: string;
+  upgradeLevel: number;
+  pinCount: number;
+  lastUpdate: Date;
+  extractors: ExtractorStatus[];
+  storage: StorageStatus[];
+  factoryCount: number;
+  idleFactoryCount: number;
+  storageFill: number;
+  nextExpiryAt: Date | null;
+  expiryNotifiedAt: Date | null;
+  storageNotifiedAt: Date | null;
+}
+
+export interface PlanetTrackingResult {
+  coloniesSeen: number;
+}
+
+export interface ColonySummary {
+  planetId: number;
+  planetType: string;
+  solarSystemId: number;
+  solarSystemName: string;
+  upgradeLevel: number;
+  pinCount: number;
+  lastUpdate: string;
+  extractors: Array<ExtractorStatus & { productTypeName: string | null; secondsRemaining: number }>;
+  storage: Array<StorageStatus & { typeName: string }>;
+  expiresAt: string | null; // Earliest extractor expiry, past or future
+  factoryCount: number;
+  idleFactoryCount: number;
+  storageFill: number;
+  storageFull: boolean;
+}
+
+/**
+ * Refresh a character's colonies from ESI
+ */
+export async function trackColonies(characterId: number): Promise<PlanetTrackingResult> {
+  const colonies = await esiClient.getCharacterPlanets(characterId);
+  const layouts = await Promise.all(
+    colonies.map((colony) => esiClient.getCharacterPlanet(characterId, colony.planet_id)),
+  );
+
+  const typeIds = layouts.flatMap((layout) =>
+    layout.pins.flatMap((pin) => [pin.type_id, ...(pin.contents ?? []).map((c) => c.type_id)]),
+  );
+  const typeDetails = await universeService.getTypeDetails(typeIds);
+
+  const stored = await prisma.planetColony.findMany({
+    where: { characterId },
+    select: { planetId: true, expiryNotifiedAt: true, storageNotifiedAt: true },
+  });
+  const storedById = new Map(stored.map((colony) => [colony.planetId, colony]));
+
+  const now = new Date();
+
+  for (const [index, colony] of colonies.entries()) {
+    const layout = layouts[index]!;
+    const previous = storedById.get(colony.planet_id);
+    const status = summarizeLayout(layout, typeDetails, new Date(colony.last_update));
+
+    // Colonies already expired or full when first seen (e.g. on the first collection)
+    // are not announced. Storage that drained is cleared so the next fill is announced.
+    const expiryNotifiedAt = previous ? previous.expiryNotifiedAt : now;
+    let storageNotifiedAt: Date | null = null;
+    if (status.storageFill >= STORAGE_FULL_RATIO) {
+      storageNotifiedAt = previous ? previous.storageNotifiedAt : now;
+    }
+
+    const data = {
+      solarSystemId: colony.solar_system_id,
+      planetType: colony.planet_type,
+      upgradeLevel: colony.upgrade_level,
+      pinCount: colony.num_pins,
+      lastUpdate: new Date(colony.last_update),
+      ...status,
+      extractors: serializeExtractors(status.extractors),
+      storage: serializeStorage(status.storage),
+      nextExpiryAt: nextExpiry(status.extractors, expiryNotifiedAt),
+      expiryNotifiedAt,
+      storageNotifiedAt,
+    };
+
+    await prisma.planetColony.upsert({
+      where: { characterId_planetId: { characterId, planetId: colony.planet_id } },
+      create: { characterId, planetId: colony.planet_id, ...data },
+      update: data,
+    });
+  }
+
+  // Abandoned colonies
+  await prisma.planetColony.deleteMany({
+    where: { characterId, planetId: { notIn: colonies.map((colony) => colony.planet_id) } },
+  });
+
+  logger.info('Planetary colonies tracked', { characterId, colonies: colonies.length });
+
+  return { coloniesSeen: colonies.length };
+}
+
+/**
+ * Notify owners of colonies whose extractor programs have expired since the last check.
+ * Returns the number of colonies notified.
+ */
+export async function notifyExpiredExtractors(now: Date = new Date()): Promise<number> {
+  const due = await prisma.planetColony.findMany({
+    where: { nextExpiryAt: { lte: now } },
+    select: {
+      characterId: true,
+      planetId: true,
+      solarSystemId: true,
+      planetType: true,
+      extractors: true,
+      nextExpiryAt: true,
+      expiryNotifiedAt: true,
+    },
+  });
+
+  let notified = 0;
+
+  for (const colony of due) {
+    const extractors = parseExtractors(colony.extractors);
+    const expired = extractors.filter((extractor) => {
+      const expiry = extractor.expiryTime ? new Date(extractor.expiryTime).getTime() : null;
+      return (
+        expiry !== null &&
+        expiry <= now.getTime() &&
+        expiry > (colony.expiryNotifiedAt?.getTime() ?? -Infinity)
+      );
+    });
+
+    // Only the run that actually advances the colony sends the notification
+    const { count } = await prisma.planetColony.updateMany({
+      where: {
+        characterId: colony.characterId,
+        planetId: colony.planetId,
+        nextExpiryAt: colony.nextExpiryAt,
+      },
+      data: { expiryNotifiedAt: now, nextExpiryAt: nextExpiry(extractors, now) },
+    });
+
+    if (count === 0 || expired.length === 0) {
+      continue;
+    }
+
+    notified++;
+    await notifyExpired(colony, expired);
+  }
+
+  if (notified > 0) {
+    logger.info('Planetary extractors expired', { colonies: notified });
+  }
+
+  return notified;
+}
+
+/**
+ * Notify owners of colonies whose storage filled up at the last refresh.
+ * Returns the number of colonies notified.
+ */
+export async function notifyFullStorage(now: Date = new Date()): Promise<number> {
+  const full = await prisma.planetColony.findMany({
+    where: { storageFill: { gte: STORAGE_FULL_RATIO }, storageNotifiedAt: null },
+    select: {
+      characterId: true,
+      planetId: true,
+      solarSystemId: true,
+      planetType: true,
+      storageFill: true,
+    },
+  });
+
+  let notified = 0;
+
+  for (const colony of full) {
+    // Only the run that actually marks the colony sends the notification
+    const { count } = await prisma.planetColony.updateMany({
+      where: {
+        characterId: colony.characterId,
+        planetId: colony.planetId,
+        storageNotifiedAt: null,
+      },
+      data: { storageNotifiedAt: now },
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    notified++;
+    await notifyStorageFull(colony);
+  }
+
+  if (notified > 0) {
+    logger.info('Planetary storage full', { colonies: notified });
+  }
+
+  return notified;
+}
+
+/**
+ * Get a character's stored colonies for the PI dashboard, soonest extractor expiry first
+ * The scheduled planet refresh keeps them in sync with ESI
+ */
+export async function getColonies(characterId: number): Promise<ColonySummary[]> {
+  const rows = await prisma.planetColony.findMany({
+    where: { characterId },
+  });
+  const colonies = rows.map((row) => ({
+    ...row,
+    extractors: parseExtractors(row.extractors),
+    storage: parseStorage(row.storage),
+  }));
+
+  if (colonies.length === 0) {
+    return [];
+  }
+
+  const typeIds = colonies.flatMap((colony) => [
+    ...colony.extractors.flatMap((extractor) =>
+      extractor.productTypeId ? [extractor.productTypeId] : [],
+    ),
+    ...colony.storage.map((pin) => pin.typeId),
+  ]);
+
+  const [typeNames, systemNames] = await Promise.all([
+    universeService.getTypeNames(typeIds),
+    universeService.getLocationNames(
+      colonies.map((colony) => colony.solarSystemId),
+      characterId,
+    ),
+  ]);
+
+  const now = Date.now();
+
+  return colonies
+    .map((colony) => {
+      const expiries = colony.extractors
+        .map((extractor) => extractor.expiryTime)
+        .filter((expiry): expiry is string => expiry !== null)
+        .sort();
+
+      return {
+        planetId: colony.planetId,
+        planetType: colony.planetType,
+        solarSystemId: colony.solarSystemId,
+        solarSystemName:
+          systemNames.get(colony.solarSystemId) ?? `Unknown Location ${colony.solarSystemId}`,
+        upgradeLevel: colony.upgradeLevel,
+        pinCount: colony.pinCount,
+        lastUpdate: colony.lastUpdate.toISOString(),
+        extractors: colony.extractors.map((extractor) => ({
+          ...extractor,
+          productTypeName: extractor.productTypeId
+            ? (typeNames.get(extractor.productTypeId) ?? `Unknown Type ${extractor.productTypeId}`)
+            : null,
+          secondsRemaining: extractor.expiryTime
+            ? Math.max(0, Math.ceil((new Date(extractor.expiryTime).getTime() - now) / 1000))
+            : 0,
+        })),
+        storage: colony.storage.map((pin) => ({
+          ...pin,
+          typeName: typeNames.get(pin.typeId) ?? `Unknown Type ${pin.typeId}`,
+        })),
+        expiresAt: expiries[0] ?? null,
+        factoryCount: colony.factoryCount,
+        idleFactoryCount: colony.idleFactoryCount,
+        storageFill: colony.storageFill,
+        storageFull: colony.storageFill >= STORAGE_FULL_RATIO,
+      };
+    })
+    .sort((a, b) => {
+      if (a.expiresAt === null || b.expiresAt === null) {
+        return (a.expiresAt === null ? 1 : 0) - (b.expiresAt === null ? 1 : 0);
+      }
+      return a.expiresAt.localeCompare(b.expiresAt);
+    });
+}
+
+/**
+ * Split a colony's pins into extractors, factories and storage
+ */
+function summarizeLayout(
+  layout: ESI.PlanetLayout,
+  typeDetails: Map<number, universeService.TypeDetails>,
+  lastUpdate: Date,
+): Pick<
+  StoredColony,
+  'extractors' | 'storage' | 'factoryCount' | 'idleFactoryCount' | 'storageFill'
+> {
+  const extractors: ExtractorStatus[] = [];
+  const storage: StorageStatus[] = [];
+  let factoryCount = 0;
+  let idleFactoryCount = 0;
+
+  for (const pin of layout.pins) {
+    if (pin.extractor_details) {
+      extractors.push({
+        pinId: pin.pin_id,
+        typeId: pin.type_id,
+        productTypeId: pin.extractor_details.product_type_id ?? null,
+        qtyPerCycle: pin.extractor_details.qty_per_cycle ?? null,
+        cycleTime: pin.extractor_details.cycle_time ?? null,
+        installTime: pin.install_time ?? null,
+        expiryTime: pin.expiry_time ?? null,
+      });
+      continue;
+    }
+
+    if (pin.schematic_id !== undefined || pin.factory_details) {
+      factoryCount++;
+      if (isIdleFactory(pin, lastUpdate)) {
+        idleFactoryCount++;
+      }
+      continue;
+    }
+
+    // Storage facilities, launchpads and the command center; other pins have no capacity
+    const capacity = typeDetails.get(pin.type_id)?.capacity ?? 0;
+    if (capacity > 0) {
+      const used = (pin.contents ?? []).reduce(
+        (total, content) =>
+          total + content.amount * (typeDetails.get(content.type_id)?.volume ?? 0),
+        0,
+      );
+      storage.push({
+        pinId: pin.pin_id,
+        typeId: pin.type_id,
+        capacity,
+        used,
+        fill: Math.min(1, used / capacity),
+      });
+    }
+  }
+
+  return {
+    extractors,
+    storage,
+    factoryCount,
+    idleFactoryCount,
+    storageFill: Math.max(0, ...storage.map((pin) => pin.fill)),
+  };
+}
+
+function isIdleFactory(pin: ESI.PlanetPin, lastUpdate: Date): boolean {
+  const schematicId = pin.schematic_id ?? pin.factory_details?.schematic_id;
+  if (!schematicId || !pin.last_cycle_start) {
+    return true;
+  }
+  return lastUpdate.getTime() - new Date(pin.last_cycle_start).getTime() > MAX_FACTORY_CYCLE_MS;
+}
+
+/**
+ * Earliest extractor expiry after `after` (any expiry when `after` is null)
+ */
+function nextExpiry(extractors: ExtractorStatus[], after: Date | null): Date | null {
+  const expiries = extractors
+    .flatMap((extractor) => (extractor.expiryTime ? [new Date(extractor.expiryTime)] : []))
+    .filter((expiry) => !after || expiry.getTime() > after.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return expiries[0] ?? null;
+}
+
+async function notifyExpired(
+  colony: Pick<StoredColony, 'characterId' | 'planetId' | 'solarSystemId' | 'planetType'>,
+  expired: ExtractorStatus[],
+): Promise<void> {
+  const productTypeIds = expired.flatMap((extractor) =>
+    extractor.productTypeId ? [extractor.productTypeId] : [],
+  );
+  const [typeNames, systemNames] = await Promise.all([
+    universeService.getTypeNames(productTypeIds),
+    universeService.getLocationNames([colony.solarSystemId], colony.characterId),
+  ]);
+  const products = [...new Set(productTypeIds)].map(
+    (typeId) => typeNames.get(typeId) ?? `Unknown Type ${typeId}`,
+  );
+  const system =
+    systemNames.get(colony.solarSystemId) ?? `Unknown Location ${colony.solarSystemId}`;
+
+  await notifyCharacterOwner(colony.characterId, 'pi_extractor_expired', {
+    title: expired.length === 1 ? 'Extractor expired' : `${expired.length} extractors expired`,
+    body: `${products.join(', ') || 'Extraction'} on your ${colony.planetType} planet in ${system} has stopped`,
+    data: {
+      reason: 'extractor_expired',
+      planetId: colony.planetId,
+      pinIds: expired.map((extractor) => extractor.pinId),
+    },
+  });
+}
+
+async function notifyStorageFull(
+  colony: Pick<
+    StoredColony,
+    'characterId' | 'planetId' | 'solarSystemId' | 'planetType' | 'storageFill'
+  >,
+): Promise<void> {
+  const systemNames = await universeService.getLocationNames(
+    [colony.solarSystemId],
+    colony.characterId,
+  );
+  const system =
+    systemNames.get(colony.solarSystemId) ?? `Unknown Location ${colony.solarSystemId}`;
+
+  await notifyCharacterOwner(colony.characterId, 'pi_storage_full', {
+    title: 'Planetary storage full',
+    body: `Storage on your ${colony.planetType} planet in ${system} is ${Math.round(colony.storageFill * 100)}% full`,
+    data: { planetId: colony.planetId },
+  });
+}
+
+function serializeExtractors(extractors: ExtractorStatus[]): Prisma.InputJsonArray {
+  return extractors.map((extractor) => ({
+    pinId: extractor.pinId,
+    typeId: extractor.typeId,
+    productTypeId: extractor.productTypeId,
+    qtyPerCycle: extractor.qtyPerCycle,
+    cycleTime: extractor.cycleTime,
+    installTime: extractor.installTime,
+    expiryTime: extractor.expiryTime,
+  }));
+}
+
+function serializeStorage(storage: StorageStatus[]): Prisma.InputJsonArray {
+  return storage.map((pin) => ({
+    pinId: pin.pinId,
+    typeId: pin.typeId,
+    capacity: pin.capacity,
+    used: pin.used,
+    fill: pin.fill,
+  }));
+}
+
+/**
+ * Read the `extractors` JSON column, dropping entries without a pin and type
+ */
+function parseExtractors(value: Prisma.JsonValue): ExtractorStatus[] {
+  return jsonObjects(value).flatMap((item): ExtractorStatus[] => {
+    const pinId = numberOrNull(item['pinId']);
+    const typeId = numberOrNull(item['typeId']);
+    if (pinId === null || typeId === null) {
+      return [];
+    }
+    return [
+      {
+        pinId,
+        typeId,
+        productTypeId: numberOrNull(item['productTypeId']),
+        qtyPerCycle: numberOrNull(item['qtyPerCycle']),
+        cycleTime: numberOrNull(item['cycleTime']),
+        installTime: stringOrNull(item['installTime']),
+        expiryTime: stringOrNull(item['expiryTime']),
+      },
+    ];
+  });
+}
+
+/**
+ * Read the `storage` JSON column, dropping incomplete entries
+ */
+function parseStorage(value: Prisma.JsonValue): StorageStatus[] {
+  return jsonObjects(value).flatMap((item): StorageStatus[] => {
+    const pinId = numberOrNull(item['pinId']);
+    const typeId = numberOrNull(item['typeId']);
+    const capacity = numberOrNull(item['capacity']);
+    const used = numberOrNull(item['used']);
+    const fill = numberOrNull(item['fill']);
+    if (pinId === null || typeId === null || capacity === null || used === null || fill === null) {
+      return [];
+    }
+    return [{ pinId, typeId, capacity, used, fill }];
+  });
+}
+
+function jsonObjects(value: Prisma.JsonValue): Prisma.JsonObject[] {
+  return Array.isArray(value)
+    ? value.filter(
+        (item): item is Prisma.JsonObject =>
+          item !== null && typeof item === 'object' && !Array.isArray(item),
+      )
+    : [];
+}
+
+function numberOrNull(value: Prisma.JsonValue | undefined): number | null {
+  return typeof value === 'number' ? value : null;
+}
+
+function stringOrNull(value: Prisma.JsonValue | undefined): string | null {
+  return typeof value === 'string' ? value : null;
+}
@@ -3,6 +3,7 @@ import { Queue, Worker, Job, QueueEvents, ConnectionOptions } from 'bullmq';
 import { createLogger } from './logger.service';
 import { captureException } from '../config/sentry.config';
 import { JobType, JobPriority, BaseJobOptions } from '../types/jobs';
+import { runWithPriority } from './rate-limiter.service';
 
 /**
  * Centralized Queue Management Service
@@ -162,7 +163,10 @@ export function createWorker<T, R = any>(
       });
 
       try {
-        const result = await processor(job);
+        // ESI requests made by the job are rate limited with the job's priority
+        const result = await runWithPriority(job.opts.priority ?? JobPriority.NORMAL, () =>
+          processor(job),
+        );
 
         const duration = timer.end({
           queueName,
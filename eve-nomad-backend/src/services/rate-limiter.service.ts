@@ -1,5 +1,7 @@
-// @ts-nocheck - ESI rate limiting needs type refactoring
+import { AsyncLocalStorage } from 'async_hooks';
 import * as redis from './redis.service';
+import { sleep } from '../utils/retry.util';
+import { JobPriority } from '../types/jobs';
 
 /**
  * Rate Limiter Service
@@ -11,7 +13,13 @@ import * as redis from './redis.service';
  *
  * ESI Rate Limits (new in 2025):
  * - Token bucket system per route group
- * - Headers: X-Ratelimit-Group, X-Ratelimit-Limit, X-Ratelimit-Used
+ * - Headers: X-Ratelimit-Group, X-Ratelimit-Limit, X-Ratelimit-Remaining, X-Ratelimit-Used
+ * - Tokens left come from X-Ratelimit-Remaining. X-Ratelimit-Used is only the cost of the
+ *   request that returned it, so it says nothing about the bucket and is not tracked.
+ *
+ * Route groups are learned from response headers. Once a group's bucket runs low,
+ * requests for it are held and released in JobPriority order, keeping the last
+ * tokens for user-facing requests.
  */
 
 interface ErrorLimitState {
@@ -21,26 +29,49 @@ interface ErrorLimitState {
 
 interface RateLimitState {
   group: string;
+  limit: number;
   tokensRemaining: number;
   windowSeconds: number;
   resetAt: Date;
 }
 
+interface RateLimitWaiter {
+  priority: JobPriority;
+  sequence: number;
+  resolve: () => void;
+}
+
 const ERROR_LIMIT_THRESHOLD = parseInt(process.env['ESI_ERROR_LIMIT_THRESHOLD'] || '80', 10); // Stop at 80%
+const RATE_LIMIT_RESERVE = parseFloat(process.env['ESI_RATE_LIMIT_RESERVE'] || '0.1'); // Share of each bucket kept for HIGH/CRITICAL
+const ROUTE_GROUP_TTL_SECONDS = 7 * 24 * 60 * 60;
+const WAITER_POLL_MS = 1000;
+const WAITER_RELEASE_INTERVAL_MS = 100; // Let responses update the bucket between releases
+
+const priorityContext = new AsyncLocalStorage<JobPriority>();
+const routeGroups = new Map<string, string>();
+const waiters = new Map<string, RateLimitWaiter[]>();
+let waiterSequence = 0;
+
+/**
+ * First value of a response header that may be repeated
+ */
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
 
 /**
  * Track error limit from response headers
  */
 export function trackErrorLimit(headers: Record<string, string | string[]>): void {
-  const remain = headers['x-esi-error-limit-remain'];
-  const reset = headers['x-esi-error-limit-reset'];
+  const remain = firstHeader(headers['x-esi-error-limit-remain']);
+  const reset = firstHeader(headers['x-esi-error-limit-reset']);
 
   if (!remain || !reset) {
     return;
   }
 
-  const errorsRemaining = parseInt(Array.isArray(remain) ? remain[0] : remain!, 10);
-  const resetSeconds = parseInt(Array.isArray(reset) ? reset[0] : reset!, 10);
+  const errorsRemaining = parseInt(remain, 10);
+  const resetSeconds = parseInt(reset, 10);
 
   const state: ErrorLimitState = {
     errorsRemaining,
@@ -63,38 +94,42 @@ export function trackErrorLimit(headers: Record<string, string | string[]>): voi
 /**
  * Track rate limit from response headers
  */
-export function trackRateLimit(headers: Record<string, string | string[]>): void {
-  const group = headers['x-ratelimit-group'];
-  const limit = headers['x-ratelimit-limit'];
-  const used = headers['x-ratelimit-used'];
-
-  if (!group || !limit || !used) {
+export function trackRateLimit(
+  headers: Record<string, string | string[]>,
+  endpoint?: string,
+): void {
+  const groupStr = firstHeader(headers['x-ratelimit-group']);
+  const limitStr = firstHeader(headers['x-ratelimit-limit']);
+  const remaining = firstHeader(headers['x-ratelimit-remaining']);
+
+  if (!groupStr || !limitStr || !remaining) {
     return;
   }
 
-  const groupStr = Array.isArray(group) ? group[0] : group!;
-  const usedTokens = parseInt(Array.isArray(used) ? used[0] : used!, 10);
+  if (endpoint) {
+    recordRouteGroup(endpoint, groupStr);
+  }
 
   // Parse limit format: "150/15m"
-  const limitStr = Array.isArray(limit) ? limit[0] : limit!;
   const limitMatch = limitStr.match(/(\d+)\/(\d+)([smh])/);
+  const [, tokens, window, windowUnit] = limitMatch ?? [];
 
-  if (!limitMatch) {
+  if (!tokens || !window || !windowUnit) {
     return;
   }
 
-  const totalTokens = parseInt(limitMatch[1], 10);
-  const windowValue = parseInt(limitMatch[2], 10);
-  const windowUnit = limitMatch[3];
+  const totalTokens = parseInt(tokens, 10);
+  const windowValue = parseInt(window, 10);
 
   let windowSeconds = windowValue;
   if (windowUnit === 'm') windowSeconds *= 60;
   else if (windowUnit === 'h') windowSeconds *= 3600;
 
-  const tokensRemaining = totalTokens - usedTokens;
+  const tokensRemaining = parseInt(remaining, 10);
 
   const state: RateLimitState = {
     group: groupStr,
+    limit: totalTokens,
     tokensRemaining,
     windowSeconds,
     resetAt: new Date(Date.now() + windowSeconds * 1000),
@@ -164,8 +199,12 @@ export async function shouldThrottleErrors(): Promise<{
 
 /**
  * Check if we should throttle requests due to rate limit
+ * Below the reserve, only HIGH and CRITICAL priority requests may use the remaining tokens
  */
-export async function shouldThrottleRate(routeGroup?: string): Promise<{
+export async function shouldThrottleRate(
+  routeGroup?: string,
+  priority: JobPriority = JobPriority.HIGH,
+): Promise<{
   shouldWait: boolean;
   waitSeconds: number;
   reason?: string;
@@ -192,6 +231,16 @@ export async function shouldThrottleRate(routeGroup?: string): Promise<{
       };
     }
 
+    const reserve = Math.ceil((state.limit ?? 0) * RATE_LIMIT_RESERVE);
+    if (priority > JobPriority.HIGH && state.tokensRemaining <= reserve) {
+      const waitSeconds = Math.ceil((new Date(state.resetAt).getTime() - Date.now()) / 1000);
+      return {
+        shouldWait: true,
+        waitSeconds: Math.max(waitSeconds, 0),
+        reason: `Rate limit reserve reached for ${routeGroup} (${state.tokensRemaining} tokens remaining)`,
+      };
+    }
+
     return { shouldWait: false, waitSeconds: 0 };
   } catch (error) {
     console.error('[RateLimit] Error checking rate limit:', error);
@@ -199,6 +248,125 @@ export async function shouldThrottleRate(routeGroup?: string): Promise<{
   }
 }
 
+/**
+ * Run a function with a request priority
+ * ESI requests made inside it (e.g. from a job processor) are scheduled with that priority
+ */
+export function runWithPriority<T>(priority: JobPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityContext.run(priority, fn);
+}
+
+/**
+ * Priority of the current request; requests outside a job are user-facing
+ */
+export function getCurrentPriority(): JobPriority {
+  return priorityContext.getStore() ?? JobPriority.HIGH;
+}
+
+/**
+ * Normalise an endpoint to its route, e.g. /latest/characters/123/assets/ -> /latest/characters/{id}/assets/
+ */
+function routeOf(endpoint: string): string {
+  const [path = endpoint] = endpoint.split('?');
+  return path.replace(/\/\d+(?=\/|$)/g, '/{id}');
+}
+
+/**
+ * Remember which rate limit group a route belongs to (shared with other workers via Redis)
+ */
+export function recordRouteGroup(endpoint: string, group: string): void {
+  const route = routeOf(endpoint);
+
+  if (routeGroups.get(route) === group) {
+    return;
+  }
+
+  routeGroups.set(route, group);
+
+  if (redis.isConnected()) {
+    redis.set(`esi:rate_limit_route:${route}`, group, ROUTE_GROUP_TTL_SECONDS).catch(() => {
+      /* Ignore errors */
+    });
+  }
+}
+
+/**
+ * Look up the rate limit group for an endpoint, if it has been seen before
+ */
+export async function getRouteGroup(endpoint: string): Promise<string | null> {
+  const route = routeOf(endpoint);
+  const known = routeGroups.get(route);
+
+  if (known || !redis.isConnected()) {
+    return known ?? null;
+  }
+
+  const group = await redis.get(`esi:rate_limit_route:${route}`);
+  if (group) {
+    routeGroups.set(route, group);
+  }
+  return group;
+}
+
+/**
+ * Wait until a request to this endpoint fits within its route group's rate limit
+ * Requests that have to wait are released in priority order as the bucket refills
+ */
+export async function acquireRateLimit(
+  endpoint: string,
+  priority: JobPriority = getCurrentPriority(),
+): Promise<void> {
+  const group = await getRouteGroup(endpoint);
+  if (!group) {
+    return;
+  }
+
+  const waitingAhead = (waiters.get(group) ?? []).some((waiter) => waiter.priority <= priority);
+
+  if (!waitingAhead && !(await shouldThrottleRate(group, priority)).shouldWait) {
+    return;
+  }
+
+  await new Promise<void>((resolve) => {
+    const queue = waiters.get(group) ?? [];
+    queue.push({ priority, sequence: waiterSequence++, resolve });
+    queue.sort((a, b) => a.priority - b.priority || a.sequence - b.sequence);
+
+    if (!waiters.has(group)) {
+      waiters.set(group, queue);
+      void releaseWaiters(group, queue);
+    }
+  });
+}
+
+async function releaseWaiters(group: string, queue: RateLimitWaiter[]): Promise<void> {
+  console.warn(`[RateLimit] Holding requests for route group ${group}`);
+
+  try {
+    let next: RateLimitWaiter | undefined;
+    while ((next = queue[0])) {
+      const throttle = await shouldThrottleRate(group, next.priority);
+
+      if (!throttle.shouldWait) {
+        // A higher-priority request may have been queued ahead while checking
+        queue.shift()?.resolve();
+        await sleep(WAITER_RELEASE_INTERVAL_MS);
+        continue;
+      }
+
+      // Re-check regularly so newly queued higher-priority requests are not stuck behind the reset
+      await sleep(
+        Math.min(Math.max(throttle.waitSeconds * 1000, WAITER_RELEASE_INTERVAL_MS), WAITER_POLL_MS),
+      );
+    }
+  } catch (error) {
+    console.error(`[RateLimit] Error releasing requests for ${group}:`, error);
+    queue.splice(0).forEach((waiter) => waiter.resolve());
+  } finally {
+    waiters.delete(group);
+  }
+}
+
 /**
  * Wait for rate limit to reset
  */
@@ -218,12 +386,11 @@ export async function waitForReset(seconds: number, reason?: string): Promise<vo
  * Parse Retry-After header (from 429 response)
  */
 export function parseRetryAfter(retryAfter: string | string[] | undefined): number {
-  if (!retryAfter) {
+  const value = firstHeader(retryAfter);
+  if (!value) {
     return 60; // Default 1 minute
   }
 
-  const value = Array.isArray(retryAfter) ? retryAfter[0] : retryAfter!;
-
   // Try parsing as seconds
   const seconds = parseInt(value, 10);
   if (!isNaN(seconds)) {
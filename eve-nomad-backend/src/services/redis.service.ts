@@ -1,4 +1,5 @@
 import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
 import { createLogger } from './logger.service';
 
 /**
@@ -9,6 +10,10 @@ import { createLogger } from './logger.service';
 const logger = createLogger({ module: 'redis' });
 let redisClient: Redis | null = null;
 
+// Only delete the lock if it still holds our token (it may have expired and been re-acquired)
+const RELEASE_LOCK_SCRIPT =
+  'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end';
+
 /**
  * Get or create Redis client instance
  */
@@ -93,6 +98,24 @@ export async function get(key: string): Promise<string | null> {
   }
 }
 
+/**
+ * Get multiple values by key (null for missing keys)
+ */
+export async function mget(keys: string[]): Promise<(string | null)[]> {
+  if (keys.length === 0) {
+    return [];
+  }
+
+  const client = getRedisClient();
+
+  try {
+    return await client.mget(...keys);
+  } catch (error) {
+    logger.error(`Error getting ${keys.length} keys`, error as Error);
+    return keys.map(() => null);
+  }
+}
+
 /**
  * Delete a key
  */
@@ -208,6 +231,36 @@ export async function deletePattern(pattern: string): Promise<number> {
   }
 }
 
+/**
+ * Acquire a short-lived lock
+ * Returns a token for releaseLock, or null if the lock is already held
+ */
+export async function acquireLock(key: string, ttlMs: number): Promise<string | null> {
+  const client = getRedisClient();
+  const token = randomUUID();
+
+  try {
+    const result = await client.set(key, token, 'PX', ttlMs, 'NX');
+    return result === 'OK' ? token : null;
+  } catch (error) {
+    logger.error(`Error acquiring lock "${key}"`, error as Error);
+    return null;
+  }
+}
+
+/**
+ * Release a lock acquired with acquireLock
+ */
+export async function releaseLock(key: string, token: string): Promise<void> {
+  const client = getRedisClient();
+
+  try {
+    await client.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+  } catch (error) {
+    logger.error(`Error releasing lock "${key}"`, error as Error);
+  }
+}
+
 /**
  * Gracefully disconnect Redis client
  */
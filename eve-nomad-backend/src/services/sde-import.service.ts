@@ -0,0 +1,392 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { parse as parseYaml } from 'yaml';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+import { ConfigurationError, ValidationError } from '../types/errors';
+
+/**
+ * SDE Import Service
+ * Loads CCP's Static Data Export (types, groups, market groups, map data) into PostgreSQL.
+ *
+ * Expects an extracted SDE directory with one file per table, in either format CCP publishes:
+ * - JSON Lines (`types.jsonl`): one record per line, keyed by `_key`
+ * - YAML or JSON (`types.yaml`, `types.json`): a mapping of key to record
+ *
+ * Each table is replaced wholesale inside a transaction, so re-importing a new release
+ * also removes rows CCP has deleted.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'sde-import' });
+
+const INSERT_BATCH_SIZE = 1000;
+const FILE_EXTENSIONS = ['.jsonl', '.yaml', '.json'];
+const VERSION_FILE = '_sde';
+
+type SdeRecord = Record<string, unknown> & { _key: number | string };
+
+interface SdeTable<T> {
+  file: string;
+  map: (record: SdeRecord) => T;
+  replace: (rows: T[]) => Promise<void>;
+}
+
+interface SdeTableImporter {
+  file: string;
+  importFrom: (sdePath: string) => Promise<number>;
+}
+
+export interface SdeImportResult {
+  buildNumber: number;
+  skipped: boolean;
+  rowCounts: Record<string, number>;
+  duration: number;
+}
+
+/**
+ * Import an SDE release from a local directory
+ * Releases that were already imported are skipped unless `force` is set
+ */
+export async function importSde(
+  sdePath: string,
+  options: { force?: boolean; buildNumber?: number } = {},
+): Promise<SdeImportResult> {
+  const startTime = Date.now();
+
+  if (!fs.existsSync(sdePath) || !fs.statSync(sdePath).isDirectory()) {
+    throw new ConfigurationError('SDE_PATH', `SDE directory not found: ${sdePath}`);
+  }
+
+  const version = await readVersion(sdePath);
+  const buildNumber = options.buildNumber ?? version.buildNumber;
+
+  if (!buildNumber) {
+    throw new ValidationError(
+      'SDE build number not found. Provide a _sde file or pass a build number explicitly',
+      'buildNumber',
+    );
+  }
+
+  const existing = await prisma.sdeVersion.findUnique({ where: { buildNumber } });
+
+  if (existing?.status === 'completed' && !options.force) {
+    logger.info('SDE build already imported, skipping', { buildNumber });
+    return { buildNumber, skipped: true, rowCounts: {}, duration: Date.now() - startTime };
+  }
+
+  const sdeVersion = await prisma.sdeVersion.upsert({
+    where: { buildNumber },
+    create: {
+      buildNumber,
+      releaseDate: version.releaseDate,
+      sourcePath: sdePath,
+      status: 'importing',
+    },
+    update: {
+      releaseDate: version.releaseDate,
+      sourcePath: sdePath,
+      status: 'importing',
+      error: null,
+      startedAt: new Date(),
+      completedAt: null,
+    },
+  });
+
+  logger.info('Importing SDE', { buildNumber, sdePath });
+
+  const rowCounts: Record<string, number> = {};
+
+  try {
+    for (const table of TABLES) {
+      rowCounts[table.file] = await table.importFrom(sdePath);
+    }
+
+    await prisma.sdeVersion.update({
+      where: { id: sdeVersion.id },
+      data: { status: 'completed', rowCounts, completedAt: new Date() },
+    });
+  } catch (error) {
+    await prisma.sdeVersion.update({
+      where: { id: sdeVersion.id },
+      data: { status: 'failed', rowCounts, error: (error as Error).message },
+    });
+    throw error;
+  }
+
+  const duration = Date.now() - startTime;
+  logger.info('SDE import completed', { buildNumber, rowCounts, duration });
+
+  return { buildNumber, skipped: false, rowCounts, duration };
+}
+
+async function importTable<T>(sdePath: string, table: SdeTable<T>): Promise<number> {
+  const file = findTableFile(sdePath, table.file);
+
+  if (!file) {
+    logger.warn('SDE table file not found, skipping', { table: table.file });
+    return 0;
+  }
+
+  const rows: T[] = [];
+  for await (const record of readRecords(file)) {
+    rows.push(table.map(record));
+  }
+
+  await table.replace(rows);
+  logger.info('SDE table imported', { table: table.file, rows: rows.length });
+
+  return rows.length;
+}
+
+function findTableFile(sdePath: string, name: string): string | null {
+  for (const extension of FILE_EXTENSIONS) {
+    const file = path.join(sdePath, `${name}${extension}`);
+    if (fs.existsSync(file)) {
+      return file;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read records from a table file, normalised to objects carrying their `_key`
+ */
+async function* readRecords(file: string): AsyncGenerator<SdeRecord> {
+  if (file.endsWith('.jsonl')) {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(file, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line) as SdeRecord;
+      }
+    }
+    return;
+  }
+
+  const content = fs.readFileSync(file, 'utf8');
+  const parsed = (file.endsWith('.json') ? JSON.parse(content) : parseYaml(content)) as Record<
+    string,
+    Record<string, unknown>
+  >;
+
+  for (const [recordKey, value] of Object.entries(parsed)) {
+    yield { ...value, _key: isNaN(Number(recordKey)) ? recordKey : Number(recordKey) };
+  }
+}
+
+async function readVersion(
+  sdePath: string,
+): Promise<{ buildNumber?: number; releaseDate: Date | null }> {
+  const file = findTableFile(sdePath, VERSION_FILE);
+
+  if (!file) {
+    return { releaseDate: null };
+  }
+
+  for await (const record of readRecords(file)) {
+    if (record._key === 'sde') {
+      return {
+        buildNumber: optionalNumber(record['buildNumber']),
+        releaseDate: record['releaseDate'] ? new Date(String(record['releaseDate'])) : null,
+      };
+    }
+  }
+
+  return { releaseDate: null };
+}
+
+// ===== Field helpers =====
+
+/**
+ * Names are localised (`{ en: 'Tritanium', de: ... }`); we store English
+ */
+function localized(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    const text = (value as Record<string, unknown>)['en'];
+    return typeof text === 'string' ? text : '';
+  }
+  return '';
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function optionalText(value: unknown): string | null {
+  return localized(value) || null;
+}
+
+function key(record: SdeRecord): number {
+  return Number(record._key);
+}
+
+// ===== Table definitions =====
+
+function chunk<T>(rows: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    chunks.push(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+  return chunks;
+}
+
+function defineTable<T>(table: SdeTable<T>): SdeTableImporter {
+  return {
+    file: table.file,
+    importFrom: (sdePath) => importTable(sdePath, table),
+  };
+}
+
+const TABLES = [
+  defineTable({
+    file: 'categories',
+    map: (record) => ({
+      categoryId: key(record),
+      name: localized(record['name']),
+      published: record['published'] === true,
+    }),
+    replace: async (rows) => {
+      await prisma.$transaction([
+        prisma.sdeCategory.deleteMany(),
+        ...chunk(rows).map((data) => prisma.sdeCategory.createMany({ data })),
+      ]);
+    },
+  }),
+  defineTable({
+    file: 'groups',
+    map: (record) => ({
+      groupId: key(record),
+      name: localized(record['name']),
+      categoryId: Number(record['categoryID']),
+      published: record['published'] === true,
+    }),
+    replace: async (rows) => {
+      await prisma.$transaction([
+        prisma.sdeGroup.deleteMany(),
+        ...chunk(rows).map((data) => prisma.sdeGroup.createMany({ data })),
+      ]);
+    },
+  }),
+  defineTable({
+    file: 'marketGroups',
+    map: (record) => ({
+      marketGroupId: key(record),
+      name: localized(record['name']),
+      description: optionalText(record['description']),
+      parentGroupId: optionalNumber(record['parentGroupID']) ?? null,
+      hasTypes: record['hasTypes'] === true,
+      iconId: optionalNumber(record['iconID']) ?? null,
+    }),
+    replace: async (rows) => {
+      await prisma.$transaction([
+        prisma.sdeMarketGroup.deleteMany(),
+        ...chunk(rows).map((data) => prisma.sdeMarketGroup.createMany({ data })),
+      ]);
+    },
+  }),
+  defineTable({
+    file: 'types',
+    map: (record) => ({
+      typeId: key(record),
+      name: localized(record['name']),
+      groupId: Number(record['groupID']),
+      marketGroupId: optionalNumber(record['marketGroupID']) ?? null,
+      volume: optionalNumber(record['volume']) ?? null,
+      mass: optionalNumber(record['mass']) ?? null,
+      capacity: optionalNumber(record['capacity']) ?? null,
+      portionSize: optionalNumber(record['portionSize']) ?? null,
+      basePrice: optionalNumber(record['basePrice']) ?? null,
+      iconId: optionalNumber(record['iconID']) ?? null,
+      published: record['published'] === true,
+    }),
+    replace: async (rows) => {
+      await prisma.$transaction([
+        prisma.sdeType.deleteMany(),
+        ...chunk(rows).map((data) => prisma.sdeType.createMany({ data })),
+      ]);
+    },
+  }),
+  defineTable({
+    file: 'mapRegions',
+    map: (record) => ({
+      regionId: key(record),
+      name: localized(record['name']),
+      factionId: optionalNumber(record['factionID']) ?? null,
+    }),
+    replace: async (rows) => {
+      await prisma.$transaction([
+        prisma.sdeRegion.deleteMany(),
+        ...chunk(rows).map((data) => prisma.sdeRegion.createMany({ data })),
+      ]);
+    },
+  }),
+  defineTable({
+    file: 'mapConstellations',
+    map: (record) => ({
+      constellationId: key(record),
+      name: localized(record['name']),
+      regionId: Number(record['regionID']),
+    }),
+    replace: async (rows) => {
+      await prisma.$transaction([
+        prisma.sdeConstellation.deleteMany(),
+        ...chunk(rows).map((data) => prisma.sdeConstellation.createMany({ data })),
+      ]);
+    },
+  }),
+  defineTable({
+    file: 'mapSolarSystems',
+    map: (record) => {
+      const position = record['position'] as { x?: number; y?: number; z?: number } | undefined;
+
+      return {
+        solarSystemId: key(record),
+        name: localized(record['name']),
+        constellationId: Number(record['constellationID']),
+        regionId: Number(record['regionID']),
+        securityStatus: optionalNumber(record['securityStatus']) ?? 0,
+        securityClass: optionalText(record['securityClass']),
+        x: position?.x ?? null,
+        y: position?.y ?? null,
+        z: position?.z ?? null,
+      };
+    },
+    replace: async (rows) => {
+      await prisma.$transaction([
+        prisma.sdeSolarSystem.deleteMany(),
+        ...chunk(rows).map((data) => prisma.sdeSolarSystem.createMany({ data })),
+      ]);
+    },
+  }),
+  defineTable({
+    file: 'mapStargates',
+    map: (record) => {
+      const destination = (record['destination'] ?? {}) as {
+        solarSystemID?: number;
+        stargateID?: number;
+      };
+
+      return {
+        stargateId: key(record),
+        solarSystemId: Number(record['solarSystemID']),
+        destinationStargateId: Number(destination.stargateID),
+        destinationSolarSystemId: Number(destination.solarSystemID),
+        typeId: optionalNumber(record['typeID']) ?? null,
+      };
+    },
+    replace: async (rows) => {
+      await prisma.$transaction([
+        prisma.sdeStargate.deleteMany(),
+        ...chunk(rows).map((data) => prisma.sdeStargate.createMany({ data })),
+      ]);
+    },
+  }),
+];
@@ -0,0 +1,196 @@
+import type { Prisma } from '@prisma/client';
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+import { ValidationError } from '../types/errors';
+import { DAY_MS, startOfUtcDay, toDateString } from '../utils/date.util';
+
+/**
+ * Skill History Service
+ * Takes daily skill point snapshots and answers "how much did I train" questions from them.
+ *
+ * ESI only reports current skills, so history starts with the first snapshot. SP gained is
+ * the change in `total_sp`, which includes SP allocated from injectors or unallocated SP.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'skill-history' });
+
+const DEFAULT_RANGE_DAYS = 30;
+
+// Skill ID -> [skillpoints in skill, trained level]
+type SkillLevels = Record<string, [number, number]>;
+
+interface StoredSnapshot {
+  date: Date;
+  totalSp: number;
+  unallocatedSp: number;
+  skills: SkillLevels;
+}
+
+export interface SkillPointHistoryPoint {
+  date: string;
+  totalSp: number;
+  unallocatedSp: number;
+}
+
+export interface TrainedSkill {
+  skillId: number;
+  skillName: string;
+  fromLevel: number;
+  toLevel: number;
+  spGained: number;
+}
+
+export interface SkillPointHistory {
+  from: string | null; // Date of the snapshot the range is measured from
+  to: string | null; // Date of the last snapshot in the range
+  spGained: number;
+  spPerDay: number;
+  points: SkillPointHistoryPoint[];
+  skillsTrained: TrainedSkill[];
+}
+
+/**
+ * Store today's (UTC) skill snapshot for a character, replacing one taken earlier today.
+ * Returns the number of skills recorded.
+ */
+export async function takeSnapshot(characterId: number): Promise<number> {
+  const { skills, total_sp, unallocated_sp } = await esiClient.getCharacterSkills(characterId);
+  const date = startOfUtcDay(new Date());
+
+  const levels: SkillLevels = Object.fromEntries(
+    skills.map((skill) => [
+      String(skill.skill_id),
+      [skill.skillpoints_in_skill, skill.trained_skill_level],
+    ]),
+  );
+  const snapshot = {
+    totalSp: total_sp,
+    unallocatedSp: unallocated_sp ?? 0,
+    skills: levels,
+    recordedAt: new Date(),
+  };
+
+  await prisma.skillSnapshot.upsert({
+    where: { characterId_date: { characterId, date } },
+    create: { characterId, date, ...snapshot },
+    update: snapshot,
+  });
+
+  logger.info('Skill snapshot stored', { characterId, skills: skills.length, totalSp: total_sp });
+
+  return skills.length;
+}
+
+/**
+ * Get SP over time, the SP/day rate and the skills trained between two UTC dates
+ * (default: the last 30 days). The latest snapshot on or before `from` is the baseline.
+ */
+export async function getSkillPointHistory(
+  characterId: number,
+  from?: string,
+  to?: string,
+): Promise<SkillPointHistory> {
+  const toDate = to ? new Date(to) : startOfUtcDay(new Date());
+  const fromDate = from ? new Date(from) : new Date(toDate.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+  if (fromDate.getTime() > toDate.getTime()) {
+    throw new ValidationError('from must not be after to', 'from', from);
+  }
+
+  const [baseline, inRange] = await Promise.all([
+    prisma.skillSnapshot.findFirst({
+      where: { characterId, date: { lte: fromDate } },
+      orderBy: { date: 'desc' },
+    }),
+    prisma.skillSnapshot.findMany({
+      where: { characterId, date: { gt: fromDate, lte: toDate } },
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+
+  const snapshots = (baseline ? [baseline, ...inRange] : inRange).map(toStoredSnapshot);
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+
+  if (!first || !last) {
+    return { from: null, to: null, spGained: 0, spPerDay: 0, points: [], skillsTrained: [] };
+  }
+
+  const spGained = last.totalSp - first.totalSp;
+  const days = (last.date.getTime() - first.date.getTime()) / DAY_MS;
+
+  return {
+    from: toDateString(first.date),
+    to: toDateString(last.date),
+    spGained,
+    spPerDay: days > 0 ? Math.round(spGained / days) : 0,
+    points: snapshots.map((snapshot) => ({
+      date: toDateString(snapshot.date),
+      totalSp: snapshot.totalSp,
+      unallocatedSp: snapshot.unallocatedSp,
+    })),
+    skillsTrained: await getTrainedSkills(first.skills, last.skills),
+  };
+}
+
+function toStoredSnapshot(row: {
+  date: Date;
+  totalSp: number;
+  unallocatedSp: number;
+  skills: Prisma.JsonValue;
+}): StoredSnapshot {
+  return {
+    date: row.date,
+    totalSp: row.totalSp,
+    unallocatedSp: row.unallocatedSp,
+    skills: parseSkillLevels(row.skills),
+  };
+}
+
+/**
+ * Read the `skills` JSON column, dropping any entry that is not a [skillpoints, level] pair
+ */
+function parseSkillLevels(value: Prisma.JsonValue): SkillLevels {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  const levels: SkillLevels = {};
+  for (const [skillId, entry] of Object.entries(value)) {
+    if (Array.isArray(entry) && entry.length === 2) {
+      const [skillpoints, level] = entry;
+      if (typeof skillpoints === 'number' && typeof level === 'number') {
+        levels[skillId] = [skillpoints, level];
+      }
+    }
+  }
+  return levels;
+}
+
+/**
+ * Skills with more SP in the later snapshot, most SP gained first
+ */
+async function getTrainedSkills(before: SkillLevels, after: SkillLevels): Promise<TrainedSkill[]> {
+  const trained = Object.entries(after)
+    .map(([skillId, [skillpoints, level]]) => {
+      const [previousSkillpoints, previousLevel] = before[skillId] ?? [0, 0];
+      return {
+        skillId: Number(skillId),
+        fromLevel: previousLevel,
+        toLevel: level,
+        spGained: skillpoints - previousSkillpoints,
+      };
+    })
+    .filter((skill) => skill.spGained > 0)
+    .sort((a, b) => b.spGained - a.spGained);
+
+  const skillNames = await universeService.getTypeNames(trained.map((skill) => skill.skillId));
+
+  return trained.map((skill) => ({
+    ...skill,
+    skillName: skillNames.get(skill.skillId) ?? `Unknown Skill ${skill.skillId}`,
+  }));
+}
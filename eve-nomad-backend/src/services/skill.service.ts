@@ -0,0 +1,99 @@
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+import type * as ESI from '../types/esi';
+
+/**
+ * Skill Service
+ * Maps ESI skill data into the shape consumed by the mobile and web clients
+ */
+
+export interface SkillQueueEntry {
+  skillId: number;
+  skillName: string;
+  queuePosition: number;
+  finishedLevel: number;
+  trainingStartSp: number;
+  levelStartSp: number;
+  levelEndSp: number;
+  startDate?: string;
+  finishDate?: string;
+}
+
+export interface SkillQueueSummary {
+  skillQueue: SkillQueueEntry[];
+  queueEndsAt: string | null;
+  totalRemainingSp: number;
+}
+
+/**
+ * Get a character's skill queue with resolved skill names
+ */
+export async function getSkillQueue(characterId: number): Promise<SkillQueueSummary> {
+  const queue = await esiClient.getCharacterSkillQueue(characterId);
+  const sorted = [...queue].sort((a, b) => a.queue_position - b.queue_position);
+
+  const skillNames = await universeService.getTypeNames(sorted.map((item) => item.skill_id));
+  const now = Date.now();
+
+  return {
+    skillQueue: sorted.map((item) => mapSkillQueueItem(item, skillNames)),
+    queueEndsAt: getQueueEndTime(sorted),
+    totalRemainingSp: Math.round(
+      sorted.reduce((total, item) => total + getRemainingSp(item, now), 0),
+    ),
+  };
+}
+
+function mapSkillQueueItem(
+  item: ESI.SkillQueueItem,
+  skillNames: Map<number, string>,
+): SkillQueueEntry {
+  const levelStartSp = item.level_start_sp ?? 0;
+
+  return {
+    skillId: item.skill_id,
+    skillName: skillNames.get(item.skill_id) ?? `Unknown Skill ${item.skill_id}`,
+    queuePosition: item.queue_position,
+    finishedLevel: item.finished_level,
+    trainingStartSp: item.training_start_sp ?? levelStartSp,
+    levelStartSp,
+    levelEndSp: item.level_end_sp ?? 0,
+    startDate: item.start_date,
+    finishDate: item.finish_date,
+  };
+}
+
+/**
+ * Queue end time is the finish date of the last entry.
+ * A paused queue has no finish dates, so there is no end time.
+ */
+function getQueueEndTime(queue: ESI.SkillQueueItem[]): string | null {
+  const last = queue[queue.length - 1];
+  return last?.finish_date ?? null;
+}
+
+/**
+ * SP still to be trained for a queue entry.
+ * The entry currently in training is pro-rated by elapsed time.
+ */
+function getRemainingSp(item: ESI.SkillQueueItem, now: number): number {
+  const startSp = item.training_start_sp ?? item.level_start_sp ?? 0;
+  const totalSp = Math.max((item.level_end_sp ?? 0) - startSp, 0);
+
+  if (!item.start_date || !item.finish_date) {
+    return totalSp;
+  }
+
+  const start = new Date(item.start_date).getTime();
+  const finish = new Date(item.finish_date).getTime();
+
+  if (finish <= now) {
+    return 0;
+  }
+
+  if (start >= now || finish <= start) {
+    return totalSp;
+  }
+
+  return (totalSp * (finish - now)) / (finish - start);
+}
@@ -6,8 +6,11 @@ import crypto from 'crypto';
  * Handles OAuth token operations with EVE SSO
  */
 
-const EVE_SSO_TOKEN_URL = 'https://login.eveonline.com/v2/oauth/token';
-const EVE_SSO_VERIFY_URL = 'https://esi.evetech.net/verify/';
+// Both default to CCP's servers; point them at the mock ESI server for local development
+const EVE_SSO_BASE_URL = process.env['EVE_SSO_BASE_URL'] || 'https://login.eveonline.com';
+const ESI_BASE_URL = process.env['ESI_BASE_URL'] || 'https://esi.evetech.net';
+const EVE_SSO_TOKEN_URL = `${EVE_SSO_BASE_URL}/v2/oauth/token`;
+const EVE_SSO_VERIFY_URL = `${ESI_BASE_URL}/verify/`;
 
 // Encryption configuration
 const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
@@ -0,0 +1,159 @@
+import { esiClient } from './esi-client';
+import { resolveNames } from './name-resolver.service';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+
+/**
+ * Universe Service
+ * Resolves EVE universe IDs (types, locations, entities) to display names
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'universe-service' });
+
+// Player structure IDs are outside the int32 range served by /universe/names/
+const STRUCTURE_ID_MIN = 1_000_000_000_000;
+
+/**
+ * Resolve names through the bulk name resolver
+ * IDs that cannot be resolved are given the fallback name
+ */
+async function getNames(
+  ids: number[],
+  fallbackName: (id: number) => string,
+): Promise<Map<number, string>> {
+  const resolved = await resolveNames(ids);
+  const names = new Map<number, string>();
+
+  for (const id of new Set(ids)) {
+    names.set(id, resolved.get(id)?.name ?? fallbackName(id));
+  }
+
+  return names;
+}
+
+/**
+ * Resolve type names for a list of type IDs
+ * Types that cannot be resolved fall back to "Unknown Type <id>"
+ */
+export async function getTypeNames(typeIds: number[]): Promise<Map<number, string>> {
+  return getNames(typeIds, (typeId) => `Unknown Type ${typeId}`);
+}
+
+export interface TypeDetails {
+  volume: number; // m³ per unit
+  capacity: number; // m³ of cargo or storage space
+  groupId: number | null;
+  marketGroupId: number | null;
+}
+
+/**
+ * Get volume, capacity and grouping for a list of type IDs from the SDE, falling back to ESI
+ * for types that have not been imported. Types ESI cannot find are omitted.
+ */
+export async function getTypeDetails(typeIds: number[]): Promise<Map<number, TypeDetails>> {
+  const uniqueIds = [...new Set(typeIds)];
+  const details = new Map<number, TypeDetails>();
+
+  const sdeTypes = await prisma.sdeType.findMany({
+    where: { typeId: { in: uniqueIds } },
+    select: { typeId: true, volume: true, capacity: true, groupId: true, marketGroupId: true },
+  });
+
+  sdeTypes.forEach((type) =>
+    details.set(type.typeId, {
+      volume: type.volume ?? 0,
+      capacity: type.capacity ?? 0,
+      groupId: type.groupId,
+      marketGroupId: type.marketGroupId,
+    }),
+  );
+
+  const missingIds = uniqueIds.filter((typeId) => !details.has(typeId));
+  const results = await Promise.allSettled(
+    missingIds.map((typeId) => esiClient.getUniverseType(typeId)),
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      details.set(missingIds[index]!, {
+        volume: result.value.volume ?? 0,
+        capacity: result.value.capacity ?? 0,
+        groupId: result.value.group_id,
+        marketGroupId: result.value.market_group_id ?? null,
+      });
+      return;
+    }
+
+    logger.warn('Failed to load type details', {
+      typeId: missingIds[index],
+      reason: String(result.reason),
+    });
+  });
+
+  return details;
+}
+
+/**
+ * Resolve names for character, corporation or alliance IDs (e.g. market clients)
+ */
+export async function getEntityNames(entityIds: number[]): Promise<Map<number, string>> {
+  return getNames(entityIds, (entityId) => `Unknown ${entityId}`);
+}
+
+/**
+ * Resolve names for station, structure and solar system location IDs
+ * Structures are looked up with the character's token, since they require docking access
+ */
+export async function getLocationNames(
+  locationIds: number[],
+  characterId: number,
+): Promise<Map<number, string>> {
+  const uniqueIds = [...new Set(locationIds)];
+  const structureIds = uniqueIds.filter(isStructureId);
+
+  const [names, structureNames] = await Promise.all([
+    getNames(
+      uniqueIds.filter((id) => !isStructureId(id)),
+      (locationId) => `Unknown Location ${locationId}`,
+    ),
+    getStructureNames(structureIds, characterId),
+  ]);
+
+  structureNames.forEach((name, id) => names.set(id, name));
+  return names;
+}
+
+async function getStructureNames(
+  structureIds: number[],
+  characterId: number,
+): Promise<Map<number, string>> {
+  const names = new Map<number, string>();
+
+  const results = await Promise.allSettled(
+    structureIds.map((structureId) => esiClient.getStructure(structureId, characterId)),
+  );
+
+  results.forEach((result, index) => {
+    const structureId = structureIds[index]!;
+
+    if (result.status === 'fulfilled') {
+      names.set(structureId, result.value.name);
+      return;
+    }
+
+    // Characters without docking access get a 403
+    logger.warn('Failed to resolve structure name', {
+      structureId,
+      reason: String(result.reason),
+    });
+
+    names.set(structureId, `Unknown Structure ${structureId}`);
+  });
+
+  return names;
+}
+
+export function isStructureId(id: number): boolean {
+  return id >= STRUCTURE_ID_MIN;
+}
@@ -0,0 +1,167 @@
+import { esiClient } from './esi-client';
+import { getPrisma } from '../utils/prisma';
+import { createLogger } from './logger.service';
+import type * as ESI from '../types/esi';
+
+/**
+ * Wallet History Service
+ * Stores wallet journal entries and transactions permanently.
+ *
+ * ESI only returns the last 30 days of journal (and a rolling window of transactions),
+ * so the history we collect is the only long-term record. Entries never change once
+ * written, so they are inserted with duplicates (same character and ESI ID) skipped.
+ */
+
+const prisma = getPrisma();
+const logger = createLogger({ module: 'wallet-history' });
+
+const TRANSACTIONS_PER_REQUEST = 2500; // ESI's maximum per /wallet/transactions/ call
+
+export interface WalletHistoryRange {
+  fromDate?: Date | string;
+  toDate?: Date | string;
+}
+
+export interface WalletHistoryBatch {
+  recordsCollected: number; // Entries returned by ESI
+  recordsStored: number; // New rows written (within the date range, not seen before)
+  nextPageToken?: string; // Set when older entries remain to be collected
+}
+
+/**
+ * Collect one page of the wallet journal. `pageToken` is the ESI page number (default 1).
+ */
+export async function collectJournalPage(
+  characterId: number,
+  range: WalletHistoryRange = {},
+  pageToken?: string,
+): Promise<WalletHistoryBatch> {
+  const page = pageToken ? parseInt(pageToken, 10) : 1;
+  const { data: entries, pages } = await esiClient.getCharacterWalletJournalPage(characterId, page);
+
+  const inRange = entries.filter((entry) => isInRange(entry.date, range));
+  const recordsStored = await storeJournalEntries(characterId, inRange);
+
+  // Pages run newest to oldest, so stop once a page reaches back past fromDate
+  const reachedStart = entries.some((entry) => isBeforeRange(entry.date, range));
+  const nextPageToken = page < pages && !reachedStart ? String(page + 1) : undefined;
+
+  logger.info('Wallet journal page collected', {
+    characterId,
+    page,
+    pages,
+    collected: entries.length,
+    stored: recordsStored,
+  });
+
+  return { recordsCollected: entries.length, recordsStored, nextPageToken };
+}
+
+/**
+ * Collect one batch of wallet transactions. `pageToken` is the ESI `from_id` to page back from.
+ */
+export async function collectTransactionBatch(
+  characterId: number,
+  range: WalletHistoryRange = {},
+  pageToken?: string,
+): Promise<WalletHistoryBatch> {
+  const fromId = pageToken ? parseInt(pageToken, 10) : undefined;
+  const transactions = await esiClient.getCharacterWalletTransactions(characterId, fromId);
+
+  const inRange = transactions.filter((transaction) => isInRange(transaction.date, range));
+  const recordsStored = await storeTransactions(characterId, inRange);
+
+  // A full batch means older transactions may remain; page back from the oldest one
+  const oldestId = Math.min(...transactions.map((transaction) => transaction.transaction_id));
+  const reachedStart = transactions.some((transaction) => isBeforeRange(transaction.date, range));
+  const nextPageToken =
+    transactions.length >= TRANSACTIONS_PER_REQUEST && !reachedStart && oldestId !== fromId
+      ? String(oldestId)
+      : undefined;
+
+  logger.info('Wallet transactions collected', {
+    characterId,
+    fromId,
+    collected: transactions.length,
+    stored: recordsStored,
+  });
+
+  return { recordsCollected: transactions.length, recordsStored, nextPageToken };
+}
+
+/**
+ * Store journal entries, skipping ones already stored. Returns the number of new rows.
+ */
+export async function storeJournalEntries(
+  characterId: number,
+  entries: ESI.WalletJournalEntry[],
+): Promise<number> {
+  if (entries.length === 0) {
+    return 0;
+  }
+
+  const result = await prisma.walletJournalEntry.createMany({
+    data: entries.map((entry) => ({
+      characterId,
+      id: BigInt(entry.id),
+      date: new Date(entry.date),
+      refType: entry.ref_type,
+      amount: entry.amount ?? null,
+      balance: entry.balance ?? null,
+      description: entry.description,
+      reason: entry.reason || null,
+      firstPartyId: entry.first_party_id ?? null,
+      secondPartyId: entry.second_party_id ?? null,
+      contextId: entry.context_id !== undefined ? BigInt(entry.context_id) : null,
+      contextIdType: entry.context_id_type ?? null,
+      tax: entry.tax ?? null,
+      taxReceiverId: entry.tax_receiver_id ?? null,
+    })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+/**
+ * Store wallet transactions, skipping ones already stored. Returns the number of new rows.
+ */
+export async function storeTransactions(
+  characterId: number,
+  transactions: ESI.WalletTransaction[],
+): Promise<number> {
+  if (transactions.length === 0) {
+    return 0;
+  }
+
+  const result = await prisma.walletTransaction.createMany({
+    data: transactions.map((transaction) => ({
+      characterId,
+      transactionId: BigInt(transaction.transaction_id),
+      date: new Date(transaction.date),
+      typeId: transaction.type_id,
+      quantity: transaction.quantity,
+      unitPrice: transaction.unit_price,
+      clientId: transaction.client_id,
+      locationId: BigInt(transaction.location_id),
+      isBuy: transaction.is_buy,
+      isPersonal: transaction.is_personal,
+      journalRefId: BigInt(transaction.journal_ref_id),
+    })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+function isInRange(date: string, range: WalletHistoryRange): boolean {
+  const time = new Date(date).getTime();
+  return (
+    (!range.fromDate || time >= new Date(range.fromDate).getTime()) &&
+    (!range.toDate || time <= new Date(range.toDate).getTime())
+  );
+}
+
+function isBeforeRange(date: string, range: WalletHistoryRange): boolean {
+  return !!range.fromDate && new Date(date).getTime() < new Date(range.fromDate).getTime();
+}
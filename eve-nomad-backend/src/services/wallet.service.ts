@@ -0,0 +1,66 @@
+import { esiClient } from './esi-client';
+import * as universeService from './universe.service';
+
+/**
+ * Wallet Service
+ * Maps ESI wallet data into the shape consumed by the mobile and web clients
+ */
+
+export interface WalletTransactionEntry {
+  transactionId: number;
+  date: string;
+  typeId: number;
+  typeName: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  isBuy: boolean;
+  clientId: number;
+  clientName: string;
+  locationId: number;
+  locationName: string;
+}
+
+/**
+ * Get a character's wallet balance in ISK
+ */
+export async function getWalletBalance(characterId: number): Promise<number> {
+  return esiClient.getCharacterWallet(characterId);
+}
+
+/**
+ * Get a character's wallet transactions with resolved type, client and location names
+ * Pass `fromId` to page backwards from a given transaction ID
+ */
+export async function getWalletTransactions(
+  characterId: number,
+  fromId?: number,
+): Promise<WalletTransactionEntry[]> {
+  const transactions = await esiClient.getCharacterWalletTransactions(characterId, fromId);
+
+  const [typeNames, clientNames, locationNames] = await Promise.all([
+    universeService.getTypeNames(transactions.map((tx) => tx.type_id)),
+    universeService.getEntityNames(transactions.map((tx) => tx.client_id)),
+    universeService.getLocationNames(
+      transactions.map((tx) => tx.location_id),
+      characterId,
+    ),
+  ]);
+
+  return transactions
+    .map((tx) => ({
+      transactionId: tx.transaction_id,
+      date: tx.date,
+      typeId: tx.type_id,
+      typeName: typeNames.get(tx.type_id) ?? `Unknown Type ${tx.type_id}`,
+      quantity: tx.quantity,
+      unitPrice: tx.unit_price,
+      amount: tx.quantity * tx.unit_price,
+      isBuy: tx.is_buy,
+      clientId: tx.client_id,
+      clientName: clientNames.get(tx.client_id) ?? `Unknown ${tx.client_id}`,
+      locationId: tx.location_id,
+      locationName: locationNames.get(tx.location_id) ?? `Unknown Location ${tx.location_id}`,
+    }))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
@@ -155,6 +155,22 @@ export class InsufficientPermissionsError extends ApplicationError {
   }
 }
 
+export class MissingScopeError extends ApplicationError {
+  public readonly characterId: number;
+  public readonly missingScopes: string[];
+
+  constructor(characterId: number, missingScopes: string[], endpoint?: string) {
+    super(
+      `Character ${characterId} has not granted the required ESI scopes: ${missingScopes.join(', ')}`,
+      403,
+      'MISSING_SCOPE',
+      { characterId, missingScopes, endpoint },
+    );
+    this.characterId = characterId;
+    this.missingScopes = missingScopes;
+  }
+}
+
 /**
  * Database Errors
  */
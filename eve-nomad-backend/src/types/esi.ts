@@ -18,6 +18,7 @@ export interface UniverseType {
   group_id: number;
   mass?: number;
   volume?: number;
+  packaged_volume?: number;
   capacity?: number;
   portion_size?: number;
   radius?: number;
@@ -26,6 +27,21 @@ export interface UniverseType {
   market_group_id?: number;
 }
 
+export interface UniverseName {
+  id: number;
+  name: string;
+  category:
+    | 'alliance'
+    | 'character'
+    | 'constellation'
+    | 'corporation'
+    | 'inventory_type'
+    | 'region'
+    | 'solar_system'
+    | 'station'
+    | 'faction';
+}
+
 export interface SolarSystem {
   system_id: number;
   name: string;
@@ -61,6 +77,52 @@ export interface CharacterPublicInfo {
   title?: string;
 }
 
+export interface CorporationPublicInfo {
+  name: string;
+  ticker: string;
+  member_count: number;
+  ceo_id: number;
+  creator_id: number;
+  tax_rate: number;
+  alliance_id?: number;
+  date_founded?: string;
+  description?: string;
+  faction_id?: number;
+  home_station_id?: number;
+  url?: string;
+}
+
+export interface Station {
+  station_id: number;
+  name: string;
+  system_id: number;
+  type_id: number;
+  owner?: number;
+  race_id?: number;
+  reprocessing_efficiency: number;
+  reprocessing_stations_take: number;
+  max_dockable_ship_volume: number;
+  office_rental_cost: number;
+  services: string[];
+  position: {
+    x: number;
+    y: number;
+    z: number;
+  };
+}
+
+export interface Structure {
+  name: string;
+  owner_id: number;
+  solar_system_id: number;
+  type_id?: number;
+  position?: {
+    x: number;
+    y: number;
+    z: number;
+  };
+}
+
 export interface MarketPrice {
   type_id: number;
   average_price?: number;
@@ -89,6 +151,40 @@ export interface CharacterSkills {
   unallocated_sp?: number;
 }
 
+export interface WalletTransaction {
+  transaction_id: number;
+  date: string;
+  type_id: number;
+  quantity: number;
+  unit_price: number;
+  client_id: number;
+  location_id: number;
+  is_buy: boolean;
+  is_personal: boolean;
+  journal_ref_id: number;
+}
+
+export interface WalletJournalEntry {
+  id: number;
+  date: string;
+  ref_type: string;
+  description: string;
+  amount?: number;
+  balance?: number;
+  reason?: string;
+  first_party_id?: number;
+  second_party_id?: number;
+  context_id?: number;
+  context_id_type?: string;
+  tax?: number;
+  tax_receiver_id?: number;
+}
+
+export interface MailRecipient {
+  recipient_id: number;
+  recipient_type: 'alliance' | 'character' | 'corporation' | 'mailing_list';
+}
+
 export interface MailHeader {
   mail_id: number;
   subject: string;
@@ -96,24 +192,67 @@ export interface MailHeader {
   timestamp: string;
   is_read?: boolean;
   labels?: number[];
-  recipients?: Array<{
-    recipient_id: number;
-    recipient_type: 'alliance' | 'character' | 'corporation' | 'mailing_list';
-  }>;
+  recipients?: MailRecipient[];
+}
+
+export interface MailBody {
+  subject?: string;
+  from?: number;
+  timestamp?: string;
+  read?: boolean;
+  labels?: number[];
+  recipients?: MailRecipient[];
+  body?: string; // EVE in-game markup (<br>, <font>, showinfo links)
+}
+
+export interface MailLabel {
+  label_id: number;
+  name: string;
+  color?: string;
+  unread_count?: number;
+}
+
+export interface MailLabels {
+  total_unread_count?: number;
+  labels: MailLabel[];
+}
+
+export interface MailingList {
+  mailing_list_id: number;
+  name: string;
+}
+
+export interface NewMail {
+  recipients: MailRecipient[];
+  subject: string;
+  body: string;
+  approved_cost?: number; // CSPA charge the sender accepts for mailing characters outside their contacts
+}
+
+export interface MailUpdate {
+  labels?: number[];
+  read?: boolean;
 }
 
 export interface MarketOrder {
   order_id: number;
   type_id: number;
   location_id: number;
+  region_id: number;
   volume_total: number;
   volume_remain: number;
-  min_volume: number;
+  min_volume?: number;
   price: number;
-  is_buy_order: boolean;
+  is_buy_order?: boolean;
+  is_corporation: boolean;
   duration: number;
   issued: string;
   range: string;
+  escrow?: number;
+}
+
+export interface MarketOrderHistoryEntry extends MarketOrder {
+  state: 'cancelled' | 'expired'; // Fully filled orders are reported as expired with volume_remain 0
 }
 
 export interface Asset {
@@ -121,12 +260,28 @@ export interface Asset {
   type_id: number;
   quantity: number;
   location_id: number;
-  location_type: 'station' | 'solar_system' | 'other';
+  location_type: 'station' | 'solar_system' | 'item' | 'other';
   location_flag: string;
   is_singleton: boolean;
   is_blueprint_copy?: boolean;
 }
 
+export interface AssetName {
+  item_id: number;
+  name: string; // "None" when the item has no custom name
+}
+
+export interface Blueprint {
+  item_id: number;
+  type_id: number;
+  location_id: number;
+  location_flag: string;
+  quantity: number; // -1 original, -2 copy, or the size of a stack of originals
+  material_efficiency: number;
+  time_efficiency: number;
+  runs: number; // -1 for originals
+}
+
 export interface IndustryJob {
   job_id: number;
   installer_id: number;
@@ -161,3 +316,49 @@ export interface PlanetaryColony {
   upgrade_level: number;
   num_pins: number;
 }
+
+export interface PlanetPin {
+  pin_id: number;
+  type_id: number;
+  latitude: number;
+  longitude: number;
+  schematic_id?: number;
+  install_time?: string;
+  expiry_time?: string;
+  last_cycle_start?: string;
+  contents?: Array<{
+    type_id: number;
+    amount: number;
+  }>;
+  extractor_details?: {
+    cycle_time?: number; // Seconds
+    head_radius?: number;
+    heads: Array<{
+      head_id: number;
+      latitude: number;
+      longitude: number;
+    }>;
+    product_type_id?: number;
+    qty_per_cycle?: number;
+  };
+  factory_details?: {
+    schematic_id: number;
+  };
+}
+
+export interface PlanetLayout {
+  links: Array<{
+    source_pin_id: number;
+    destination_pin_id: number;
+    link_level: number;
+  }>;
+  pins: PlanetPin[];
+  routes: Array<{
+    route_id: number;
+    source_pin_id: number;
+    destination_pin_id: number;
+    content_type_id: number;
+    quantity: number;
+    waypoints?: number[];
+  }>;
+}
@@ -34,6 +34,14 @@ export enum JobType {
   ESI_DATA_REFRESH = 'esi-data-refresh',
   HISTORICAL_DATA_COLLECTION = 'historical-data-collection',
   CACHE_CLEANUP = 'cache-cleanup',
+  INDUSTRY_JOB_CHECK = 'industry-job-check',
+  INDUSTRY_JOB_REFRESH = 'industry-job-refresh',
+  SKILL_SNAPSHOT = 'skill-snapshot',
+  NET_WORTH_SNAPSHOT = 'net-worth-snapshot',
+  ASSET_INDEX_REFRESH = 'asset-index-refresh',
+  PLANET_REFRESH = 'planet-refresh',
+  PI_EXTRACTOR_CHECK = 'pi-extractor-check',
+  MAIL_SYNC = 'mail-sync',
   USER_NOTIFICATION = 'user-notification',
   ANALYTICS_PROCESSING = 'analytics-processing',
 }
@@ -80,13 +88,17 @@ export interface ESIDataRefreshJobData {
  */
 export interface HistoricalDataCollectionJobData {
   characterId: number;
-  userId: number;
+  userId: string; // User.id (cuid)
   dataType:
     | 'wallet_journal'
     | 'wallet_transactions'
     | 'market_orders'
     | 'industry_jobs'
-    | 'skill_history';
+    | 'skill_history'
+    | 'net_worth'
+    | 'assets'
+    | 'planets'
+    | 'mail';
   fromDate?: Date | string;
   toDate?: Date | string;
   batchSize?: number;
@@ -0,0 +1,20 @@
+/**
+ * Date Utility
+ * Helpers for the UTC calendar days used by daily snapshots
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Midnight UTC on the day of `date`
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Format a date as its UTC day (YYYY-MM-DD)
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -1,3 +1,5 @@
+import { ESIError, ESIErrorLimitError, ESIRateLimitError } from '../types/errors';
+
 /**
  * Retry Utility
  * Provides exponential backoff retry logic for transient failures
@@ -27,6 +29,15 @@ const DEFAULT_OPTIONS: Required<RetryOptions> = {
  * Check if an error is retryable
  */
 export function isRetryableError(error: unknown, retryableStatusCodes: number[]): boolean {
+  // ESI limit errors are thrown once the limit has reset
+  if (error instanceof ESIRateLimitError || error instanceof ESIErrorLimitError) {
+    return true;
+  }
+
+  if (error instanceof ESIError) {
+    return error.esiStatus !== undefined && retryableStatusCodes.includes(error.esiStatus);
+  }
+
   // Network errors are always retryable
   if (error instanceof Error) {
     if (
@@ -71,6 +71,8 @@ export interface SkillQueueItem {
 
 export interface SkillQueueResponse {
   skillQueue: SkillQueueItem[];
+  queueEndsAt: string | null;
+  totalRemainingSp: number;
 }
 
 // Wallet
@@ -112,10 +114,14 @@ export interface MarketOrder {
   duration: number;
   issued: string;
   range: string;
+  escrow: number;
+  expiresAt: string;
+  daysUntilExpiry: number;
 }
 
 export interface MarketOrdersResponse {
   orders: MarketOrder[];
+  totalEscrow: number;
 }
 
 // User/Subscription